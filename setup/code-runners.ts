@@ -1,19 +1,39 @@
-// Helper to get the closest parent with a data-p5code-id attribute
-function findClosestP5CodeIdElement(el: HTMLElement | null): HTMLElement | null {
-  while (el) {
-    if (el.hasAttribute && el.hasAttribute('data-p5code-id')) return el;
-    el = el.parentElement;
-  }
-  return null;
-}
 // Public runner types exported for tests and downstream typing
 export interface ExecuteInIframeResult {
   success: boolean;
+  /** A newer run of the preview started before this one finished */
+  cancelled?: boolean;
   error?: string;
   element?: HTMLElement;
   stopButtonController?: StopButtonController;
 }
 
+/**
+ * Author-side information used to map runtime errors of an injected sketch
+ */
+export interface SketchSource {
+  /** The author's code, before transpilation */
+  sourceCode: string;
+  /** Source map from the transpiled code to the author's code */
+  sourceMap?: RawSourceMap | null;
+  /** Non-fatal transpiler diagnostics, printed before the sketch output */
+  diagnostics?: TranspileDiagnostic[];
+  /** Instance-mode sketches run as written instead of inside the `_p` wrapper */
+  mode?: SketchMode;
+  /** Line spans of the files of a multi-file sketch, joined in `sourceCode` */
+  files?: SketchFileSpan[];
+  /** Budget of the loop guard the sketch was instrumented with, if any */
+  loopGuard?: LoopGuardOptions | false;
+  /** Modules the sketch imports; the sketch then runs as a module script */
+  imports?: string[];
+  /** GLSL files of the sketch, exposed to it as `shaders` */
+  shaders?: ShaderFile[];
+  /** Token of the run; a newer run of the preview cancels it */
+  token?: RunToken;
+  /** Author id of the sketch; its console is also published under it (see `setup/console-stream.ts`) */
+  sketchId?: string | null;
+}
+
 export type JsRunnerCtx = Parameters<NonNullable<RunnerType['js']>>[1];
 
 export type IframeElementLike = HTMLIFrameElement & {
@@ -21,26 +41,37 @@ export type IframeElementLike = HTMLIFrameElement & {
   __cleanupManager?: { disconnectAll?: () => void };
 };
 import { defineCodeRunnersSetup } from "@slidev/types";
-import { transpileGlobalToInstance } from "./p5-transpile";
-// loop-protect is used to instrument user code to guard against infinite loops
-// We `require` it dynamically to avoid bundler/top-level import issues in some Slidev setups.
-/* eslint-disable @typescript-eslint/no-var-requires */
-let loopProtect: ((code: string, opts?: Record<string, unknown>) => string) | undefined
-try {
-  const maybeRequire = (globalThis as { require?: (id: string) => unknown }).require
-  const lp = typeof maybeRequire === 'function' ? maybeRequire('loop-protect') : undefined
-  if (typeof lp === 'function') loopProtect = lp as (code: string, opts?: Record<string, unknown>) => string
-} catch (e) {
-  void 0
-}
-/* eslint-enable @typescript-eslint/no-var-requires */
-import type { P5Instance } from '../types'
-import { findSourcePlayButton } from "./play-button-finder";
-import { findP5Container } from "./container-discovery";
+import type { RawSourceMap } from "source-map-js";
+import { readP5Pragma } from "./p5-transpile";
+import { detectP5SketchAsync, transpileSketchAsync } from "./transpile-service";
+import { resolveP5ApiTables } from "./p5-api-tables";
+import { getP5VersionFromUrl } from "./p5-version-manager";
+import { dispatchDiagnostics, formatDiagnostic, formatDiagnostics } from "./diagnostics";
+import { collectSketchFiles, combineSketchFiles, sketchFileSources, splitDiagnosticsByFile } from "./sketch-files";
+import type { SketchFileSpan } from "./sketch-files";
+import { LOOP_GUARD_ATTRIBUTE, getLoopGuardScript, parseLoopGuardAttribute } from "./loop-guard";
+import type { LoopGuardOptions } from "./loop-guard";
+import { LINT_ATTRIBUTE, parseLintAttribute } from "./p5-lint";
+import { getSketchModuleHeader } from "./sketch-imports";
+import { exposeSketchShaders, splitShaderFiles, toShaderFile, updateSketchShader } from "./sketch-shaders";
+import type { ShaderFile } from "./sketch-shaders";
+import { MODE_ATTRIBUTE, loadGlobalModeSketch, prepareGlobalModeSketch } from "./global-mode";
+import type { GlobalModeIframe } from "./global-mode";
+import type { DiagnosticSeverity, P5Instance, SketchMode, TranspileDiagnostic } from '../types'
+import { resolveRunTarget } from "./run-target";
+import { findIframeReadiness } from "./iframe-readiness";
+import { CANCELLED_RUN_TEXT, beginRun, isCurrentRun, takeOverPreview } from "./run-token";
+import type { RunToken } from "./run-token";
 import { getConsoleWrapperScript } from "./console-wrapper";
+import { ConsoleOutput, textEntry } from "./console-output";
+import { publishConsoleEntry, resetConsoleStream } from "./console-stream";
+import type { ConsoleEntry, ConsoleLevel } from "./console-output";
+import { getInstanceCaptureScript, getInstanceReleaseScript } from "./instance-capture";
 import { StopButtonController } from "./stop-button-controller";
 import { CleanupManager } from "./cleanup-manager";
 import { ErrorLineMapper } from "./error-line-mapper";
+import type { ErrorLineMapperOptions } from "./error-line-mapper";
+import { attachSketchErrorListener } from "./sketch-error-listener";
 import { /* initializeP5Addon, getP5Addon */ } from "./types";
 // Local helper types to avoid `any` in a few cast sites
 type IframeWindowWithAddon = Window & { __p5Addon?: Record<string, unknown>; p5?: { instance?: P5Instance } };
@@ -186,13 +217,15 @@ const disconnectIframeCleanupManager = (iframeElement: IframeElementLike): void
  * @param sourceCode - Original source code
  * @param transpiledCode - Transpiled code
  * @param consoleWrapperLinesCount - Number of console wrapper lines injected
+ * @param options - Source map for exact line and column
  * @returns Formatted error message with mapped line numbers
  */
 const formatErrorWithLineMapping = (
   error: unknown,
   sourceCode: string,
   transpiledCode: string,
-  consoleWrapperLinesCount: number = 0
+  consoleWrapperLinesCount: number = 0,
+  options: ErrorLineMapperOptions = {}
 ): string => {
   const errObj = (error as { message?: unknown; stack?: unknown } | null) ?? null;
   const errorMessage = typeof errObj?.message === 'string' ? errObj.message : String(error ?? 'Unknown error');
@@ -200,7 +233,8 @@ const formatErrorWithLineMapping = (
   const fullError = `${errorMessage}\n\n${errorStack}`;
 
   try {
-    const mapper = new ErrorLineMapper(sourceCode, transpiledCode, consoleWrapperLinesCount);
+    const mapper = new ErrorLineMapper(sourceCode, transpiledCode, consoleWrapperLinesCount, options);
+    if (mapper.hasSourceMap) return mapper.formatErrorWithContext(fullError);
     const mappedError = mapper.mapErrorMessage(fullError);
     return mappedError;
   } catch (e) {
@@ -209,6 +243,133 @@ const formatErrorWithLineMapping = (
   }
 };
 
+/**
+ * Build the script injected into the iframe for a transpiled sketch
+ *
+ * The sketch code starts at column 0 on its own line, right after the
+ * instance-mode wrapper and console bridge, so the number of preamble lines
+ * is all that separates script positions from transpiled positions.
+ *
+ * Global-mode sketches are wrapped in `new window.p5((p) => { ... })`;
+ * instance-mode sketches run as written, with the instance they create
+ * captured as `window.p5.instance` (see `setup/instance-capture.ts`).
+ *
+ * @param transpiled - Transpiled p5.js code (or the sketch itself in instance mode)
+ * @param mode - How the sketch creates its p5 instance
+ * @param loopGuardScript - Loop guard runtime, when the sketch was
+ *   transpiled with `loopGuard` (see `getLoopGuardScript()`)
+ * @param moduleHeader - Imports of the sketch's modules, when it has any
+ *   (see `getSketchModuleHeader()`); the script must then run as a module
+ * @param runToken - Id of the run's token; the script does nothing unless
+ *   `window.__p5Addon.runToken` still holds it when it executes
+ * @returns The script and the number of lines preceding the sketch code
+ */
+const buildSketchScript = (
+  transpiled: string,
+  mode: SketchMode = 'global',
+  loopGuardScript: string = '',
+  moduleHeader: string = '',
+  runToken?: number
+): { script: string; preambleLines: number } => {
+  const tokenCheck = runToken === undefined ? '' : `  if (window.__p5Addon.runToken !== ${runToken}) return;\n`;
+  const setup = `${moduleHeader}(function() {
+  if (!window.__p5Addon) window.__p5Addon = {};
+${tokenCheck}  window.__p5Addon.originalLog = window.__p5Addon.originalLog || window.console.log.bind(console);
+  window.__p5Addon.originalError = window.__p5Addon.originalError || window.console.error.bind(console);
+  window.__p5Addon.originalWarn = window.__p5Addon.originalWarn || window.console.warn.bind(console);
+  window.__p5Addon.appendLog = window.__p5Addon.appendLog || function() {};
+${loopGuardScript}`;
+  const ready = `
+  if (typeof window.__p5Addon.onReady === 'function') window.__p5Addon.onReady();
+})();
+`;
+  const preamble = mode === 'instance'
+    ? `${setup}${getConsoleWrapperScript()}${getInstanceCaptureScript()}`
+    : `${setup}  let p5Instance;
+  p5Instance = new window.p5((p) => {
+    const _p = p;
+${getConsoleWrapperScript()}
+`;
+  const epilogue = mode === 'instance'
+    ? `${getInstanceReleaseScript()}${ready}`
+    : `
+  }, 'p5-container');
+  window.p5.instance = p5Instance;${ready}`;
+  return { script: `${preamble}${transpiled}${epilogue}`, preambleLines: preamble.split('\n').length - 1 };
+};
+
+const DIAGNOSTIC_LEVELS: Record<DiagnosticSeverity, ConsoleLevel> = { error: 'error', warning: 'warn', info: 'info' };
+
+/**
+ * Create the Monaco output element of a run and its log sinks
+ *
+ * Warnings from the transpiler lead the output so they are not missed.
+ * Once a newer run cancels this one, the output is hidden and late
+ * messages are dropped. A sketch with an author id also publishes its
+ * output for `<P5Console>`.
+ *
+ * @param source - Author's code and diagnostics of the run
+ * @returns The element, a sink for text from the runner and one for the
+ *   entries of the sketch's console (see `setup/console-output.ts`)
+ */
+const createLogOutput = (source?: SketchSource): {
+  logContainer: HTMLElement;
+  appendLog: (msg: string, level?: ConsoleLevel) => void;
+  appendEntry: (entry: ConsoleEntry) => void;
+} => {
+  const output = new ConsoleOutput();
+  const logContainer = output.element;
+  const sketchId = source?.sketchId;
+  if (sketchId) resetConsoleStream(sketchId);
+  source?.token?.onCancel(() => {
+    logContainer.style.display = 'none';
+  });
+
+  const appendEntry = (entry: ConsoleEntry) => {
+    if (source?.token?.cancelled) return;
+    output.append(entry);
+    if (sketchId) publishConsoleEntry(sketchId, entry);
+  };
+  const appendLog = (msg: string, level?: ConsoleLevel) => appendEntry(textEntry(msg, level));
+
+  const diagnosticSource = source?.files
+    ? sketchFileSources(source.sourceCode, source.files)
+    : source?.sourceCode ?? '';
+  for (const diagnostic of source?.diagnostics ?? []) {
+    appendLog(formatDiagnostic(diagnostic, diagnosticSource), DIAGNOSTIC_LEVELS[diagnostic.severity]);
+  }
+  return { logContainer, appendLog, appendEntry };
+};
+
+/**
+ * Output of a sketch run: its live log element, or a message
+ */
+type SketchRunOutput = { text: string } | { element: HTMLElement };
+
+/**
+ * Output element of a run queued until the preview is ready
+ *
+ * Shows a loading note, replaced by the run's own output once it settles.
+ *
+ * @param output - The queued run
+ */
+const createPendingOutput = (output: Promise<SketchRunOutput>): HTMLElement => {
+  const holder = document.createElement('div');
+  const note = document.createElement('pre');
+  note.style.cssText = 'margin: 0; white-space: pre-wrap; opacity: 0.6;';
+  note.textContent = 'Loading p5.js in the preview…';
+  holder.appendChild(note);
+  void output.then((result) => {
+    if ('element' in result) {
+      holder.replaceChildren(result.element);
+    } else {
+      note.style.opacity = '';
+      note.textContent = result.text;
+    }
+  });
+  return holder;
+};
+
 /**
  * Execute p5 code in iframe context
  * 
@@ -218,6 +379,8 @@ const formatErrorWithLineMapping = (
  * 
  * @param iframe - The iframe element to execute code in
  * @param transpiled - Transpiled p5.js code (instance mode)
+ * @param source - Author's code and source map, used to report runtime errors
+ *   at their original line and column
  * @returns Promise resolving to:
  *   - success: Whether execution succeeded
  *   - error: Error message if execution failed
@@ -226,7 +389,8 @@ const formatErrorWithLineMapping = (
  */
 const executeInIframeContext = async (
   iframe: IframeElementLike,
-  transpiled: string
+  transpiled: string,
+  source?: SketchSource
 ): Promise<ExecuteInIframeResult> => {
   const iframeWindow = iframe.contentWindow;
   const iwWindow = iframeWindow as IframeWindowWithAddon;
@@ -272,24 +436,14 @@ const executeInIframeContext = async (
     }
 
     // Live log sink: create early so it can be used in callbacks
-    const logContainer = document.createElement('pre');
-    logContainer.style.cssText = 'max-height: 10em; overflow: auto; margin: 0; white-space: pre-wrap;';
-    // logContainer.style.cssText = 'max-height: 10em; overflow: auto; margin: 0; padding: 0.25rem 0.5rem; background: #111; color: #eee; border-radius: 6px; white-space: pre-wrap;';
-
-    const appendLog = (msg: string) => {
-      if (logContainer.textContent && logContainer.textContent.length > 0) {
-        logContainer.textContent += '\n';
-      }
-      logContainer.textContent += msg;
-      logContainer.scrollTop = logContainer.scrollHeight;
-    };
+    const { logContainer, appendLog, appendEntry } = createLogOutput(source);
 
     // Create stop button controller for this execution
     const stopButtonController = new StopButtonController(iframeWindow, appendLog);
+    source?.token?.onCancel(() => stopButtonController.remove());
 
-    // Expose function that iframe can call to insert button in parent DOM
-    if (!window.__p5Addon) window.__p5Addon = {};
-    window.__p5Addon.insertStopButton = (sourcePlayBtn: HTMLElement) => {
+    // Inserts this run's button in the parent DOM, called from the iframe
+    const insertStopButton = (sourcePlayBtn: HTMLElement) => {
       try {
         stopButtonController.insertNext(sourcePlayBtn);
       } catch (e) {
@@ -302,8 +456,7 @@ const executeInIframeContext = async (
     iframeWindow.__p5Addon.onReady = () => {
       const sourcePlayBtn = iframeWindow.__p5Addon.sourcePlayButton;
 
-      // Call parent window's function to insert button
-      if (window.__p5Addon?.insertStopButton && sourcePlayBtn) {
+      if (sourcePlayBtn) {
         try {
           // Prevent cross-document insertion errors in test environments
           // by ensuring the source element belongs to the same document as the
@@ -311,7 +464,7 @@ const executeInIframeContext = async (
           // simply skip inserting the stop button.
           const ownerDoc = sourcePlayBtn.ownerDocument;
           if (!ownerDoc || ownerDoc === document) {
-            window.__p5Addon.insertStopButton(sourcePlayBtn);
+            insertStopButton(sourcePlayBtn);
           } else {
             // If sourcePlayBtn is from a different document (iframe), try
             // to use its identifying attributes to find a matching element
@@ -321,7 +474,7 @@ const executeInIframeContext = async (
               const maybeId = sourcePlayBtn.getAttribute('data-p5code-id');
               if (maybeId) {
                 const parentEl = document.querySelector(`[data-p5code-id="${maybeId}"]`) as HTMLElement | null;
-                if (parentEl) window.__p5Addon.insertStopButton(parentEl);
+                if (parentEl) insertStopButton(parentEl);
               }
             } catch (e) {
               // ignore and skip insertion in this environment
@@ -335,36 +488,37 @@ const executeInIframeContext = async (
 
     // Expose sink to iframe so its console wrappers can stream logs
     iframeWindow.__p5Addon.appendLog = appendLog;
-    // Get console wrapper code
-    const consoleWrapperCode = getConsoleWrapperScript();
-    const wrappedCode = `
-      ${consoleWrapperCode}
-      
-      ${transpiled}
-    `;
-
+    iframeWindow.__p5Addon.appendEntry = appendEntry;
     // Execute code in iframe context with p5 instance using a blob-injected script
     try {
-      const scriptContent = `
-        (function() {
-          if (!window.__p5Addon) window.__p5Addon = {};
-          window.__p5Addon.originalLog = window.__p5Addon.originalLog || window.console.log.bind(console);
-          window.__p5Addon.originalError = window.__p5Addon.originalError || window.console.error.bind(console);
-          window.__p5Addon.originalWarn = window.__p5Addon.originalWarn || window.console.warn.bind(console);
-          window.__p5Addon.appendLog = window.__p5Addon.appendLog || function() {};
-          let p5Instance;
-          p5Instance = new window.p5((p) => {
-            const _p = p;
-            ${wrappedCode}
-          }, 'p5-container');
-          window.p5.instance = p5Instance;
-          if (typeof window.__p5Addon.onReady === 'function') window.__p5Addon.onReady();
-        })();
-      `;
+      const loopGuardScript = source?.loopGuard === undefined || source.loopGuard === false
+        ? ''
+        : getLoopGuardScript(source.loopGuard, source.files);
+      const imports = source?.imports ?? [];
+      const moduleHeader = imports.length > 0 ? getSketchModuleHeader(imports, iframeWindow.__p5Addon.importMap) : '';
+      // Only the latest run's script may start its sketch
+      iframeWindow.__p5Addon.runToken = source?.token?.id;
+      source?.token?.onCancel(() => {
+        if (iframeWindow.__p5Addon.runToken === source.token?.id) iframeWindow.__p5Addon.runToken = undefined;
+      });
+      const { script: scriptContent, preambleLines } = buildSketchScript(transpiled, source?.mode, loopGuardScript, moduleHeader, source?.token?.id);
 
       const blob = new Blob([scriptContent], { type: 'text/javascript' });
       const url = URL.createObjectURL(blob);
+
+      // Report runtime errors at the author's line/column; replace the
+      // listener of any previous run in this iframe
+      const mapper = new ErrorLineMapper(source?.sourceCode ?? transpiled, transpiled, preambleLines, {
+        sourceMap: source?.sourceMap,
+        scriptUrl: url,
+        files: source?.files,
+      });
+      iframeWindow.__p5Addon.detachErrorListener?.();
+      iframeWindow.__p5Addon.detachErrorListener = attachSketchErrorListener(iframeWindow, mapper, (message) => appendLog(message, 'error'));
+      exposeSketchShaders(iframeWindow, source?.shaders ?? []);
+
       const scriptEl = iframeWindow.document.createElement('script');
+      if (moduleHeader) scriptEl.type = 'module';
       scriptEl.src = url;
       const appendPromise = new Promise<void>((resolve, reject) => {
         scriptEl.onload = () => {
@@ -377,7 +531,10 @@ const executeInIframeContext = async (
         };
       });
       iframeWindow.document.body.appendChild(scriptEl);
-      await appendPromise;
+      await (source?.token ? source.token.race(appendPromise) : appendPromise);
+      if (source?.token?.cancelled) {
+        return { success: false, cancelled: true, error: CANCELLED_RUN_TEXT };
+      }
     } catch (e) {
       // If injection fails, surface an error
       return { success: false, error: String(e) };
@@ -420,180 +577,335 @@ const executeInIframeContext = async (
   }
 };
 
+/**
+ * Run a global-mode sketch in a fresh document of the iframe
+ *
+ * The sketch runs as written (see `setup/global-mode.ts`); the console
+ * bridge, runtime error mapping, stop button and resize fallback work as for
+ * transpiled sketches.
+ *
+ * @param iframe - A `<P5Code>` iframe (it provides `__p5BuildHtml`)
+ * @param code - The sketch (type syntax already stripped)
+ * @param source - Author's code, source map and diagnostics
+ * @param sourcePlayButton - Run button the stop button is placed next to
+ */
+const executeGlobalModeInIframe = async (
+  iframe: IframeElementLike & GlobalModeIframe,
+  code: string,
+  source: SketchSource,
+  sourcePlayButton: HTMLElement | null
+): Promise<ExecuteInIframeResult> => {
+  const buildHtml = iframe.__p5BuildHtml;
+  if (!iframe.contentWindow || typeof buildHtml !== 'function') {
+    return { success: false, error: 'This preview cannot run global-mode sketches.' };
+  }
+  const { logContainer, appendLog, appendEntry } = createLogOutput(source);
+  const stopButtonController = new StopButtonController(iframe.contentWindow, appendLog);
+  source.token?.onCancel(() => stopButtonController.remove());
+  try {
+    const loading = loadGlobalModeSketch(iframe, code, buildHtml, (win, scriptUrl) => {
+      const addon = (win as IframeWindowWithAddon).__p5Addon;
+      if (addon) {
+        addon.appendLog = appendLog;
+        addon.appendEntry = appendEntry;
+      }
+      // The window is discarded by the next run, and its listener with it
+      const mapper = new ErrorLineMapper(source.sourceCode, code, 0, {
+        sourceMap: source.sourceMap,
+        scriptUrl,
+        files: source.files,
+      });
+      attachSketchErrorListener(win, mapper, (message) => appendLog(message, 'error'));
+      exposeSketchShaders(win, source.shaders ?? []);
+    });
+    // A newer run replaces the document; stop waiting for this one
+    await (source.token ? source.token.race(loading) : loading);
+  } catch (e) {
+    return { success: false, error: String(e) };
+  }
+  if (source.token?.cancelled) {
+    return { success: false, cancelled: true, error: CANCELLED_RUN_TEXT };
+  }
+  if (sourcePlayButton && sourcePlayButton.ownerDocument === document) {
+    try {
+      stopButtonController.insertNext(sourcePlayButton);
+    } catch (e) {
+      // swallow insertion errors in non-browser/test environments
+    }
+  }
+  try {
+    scheduleFallbackResize(iframe.contentWindow, iframe);
+  } catch (e) {
+    // ignore scheduling errors in non-browser/test environments
+  }
+  return { success: true, element: logContainer, stopButtonController };
+};
+
 // Export helpers for unit testing
-export { executeInIframeContext, formatErrorWithLineMapping, scheduleFallbackResize, findClosestP5CodeIdElement };
+export { executeInIframeContext, executeGlobalModeInIframe, buildSketchScript, formatErrorWithLineMapping, scheduleFallbackResize, createPendingOutput };
 
 export default defineCodeRunnersSetup((runner: RunnerType) => {
-  const customJs: NonNullable<RunnerType['js']> = async (code: string, ctx: unknown) => {
-    // Detect p5.js code by looking for setup() function
-    const looksLikeP5 = /\b(function\s+setup|const\s+setup|let\s+setup|setup\s*=)/i.test(code);
+  /**
+   * Create the p5 runner for one fence language
+   *
+   * @param language - Fence language; TypeScript (`ts`) sketches have their
+   *   type syntax stripped before the instance-mode transform, and `p5`
+   *   fences always run as sketches
+   */
+  const createP5Runner = (language: 'js' | 'ts' | 'p5'): NonNullable<RunnerType['js']> => async (code: string, ctx: unknown) => {
+    const typescript = language === 'ts';
+    // A multi-file <P5Code> runs all of its tabs, joined, as one program
+    const resolved = resolveRunTarget(ctx);
+    const bound = 'target' in resolved ? resolved.target : null;
+    const sketchFiles = bound ? collectSketchFiles(bound.editor, bound.panel, code) : null;
+    if (sketchFiles?.unreadable.length) {
+      return { text: `Error: Could not read the code of ${sketchFiles.unreadable.join(', ')}. Open its tab once and run again.` };
+    }
+    // GLSL tabs are exposed to the sketch as `shaders` rather than joined
+    const split = sketchFiles ? splitShaderFiles(sketchFiles.files) : null;
+    const combined = split ? combineSketchFiles(split.files) : null;
+    const sourceCode = combined?.code ?? code;
+    // Detect p5.js code from its parse tree, unless a `// @p5` / `// @no-p5`
+    // pragma decides; parsed in the transpile worker and cached like
+    // transpiling, against the p5 API (add-ons included) of the preview
+    const pragma = readP5Pragma(sourceCode);
+    const looksLikeP5 = language === 'p5' || (pragma ? pragma === 'p5' : await detectP5SketchAsync(sourceCode, {
+      apiTables: bound ? resolveP5ApiTables(bound.iframe.contentWindow) : undefined,
+      typescript,
+    }));
     
-    // Track transpiled code for error mapping
+    // Track transpiled code and its source map for error mapping
     let transpiled: string | null = null;
+    let errorMapping: ErrorLineMapperOptions = {};
     
     if (!looksLikeP5) {
-      // Not p5 code - fall back to default JavaScript execution via runner
-      if (runner && runner.js) {
-        return runner.js(code, ctx as unknown as JsRunnerCtx);
+      // Not p5 code - fall back to Slidev's default runner for the language
+      const defaultRunner = runner?.[language];
+      if (defaultRunner) {
+        return defaultRunner(code, ctx as unknown as JsRunnerCtx);
       }
       return {
-        text: 'Error: No default JavaScript runner is available for non-p5 code. This addon only executes p5 sketches.',
+        text: `Error: No default ${typescript ? 'TypeScript' : 'JavaScript'} runner is available for non-p5 code. This addon only executes p5 sketches.`,
       };
     }
+    // The sketch runs in the preview of the <P5Code> the code block belongs
+    // to, whatever has focus; without one, say so instead of doing nothing
+    if ('error' in resolved) {
+      return { text: resolved.error };
+    }
+    const { target } = resolved;
     
+    // mode="global" runs the sketch as written, without transpiling, in a
+    // document of its own; other runs wait for the preview to load p5
+    const globalMode = target.editor.getAttribute(MODE_ATTRIBUTE) === 'global';
+    // Starting this run cancels the one in progress in the same preview
+    const token = beginRun(target.iframe);
+
     // p5.js code detected - transpile and execute
-    // Note: addon is iframe-first; DOM fallback has been removed.
-    try {
-      // **CRITICAL**: Capture the play button BEFORE p5 execution
-      const sourcePlayButton = findSourcePlayButton(document.activeElement as HTMLElement);
-      // Instrument user code with loop-protect (if available) to guard infinite loops
-      let codeToTranspile = code
+    const runSketch = async (): Promise<SketchRunOutput> => {
+      // Note: addon is iframe-first; DOM fallback has been removed.
       try {
-        if (loopProtect) {
-          // Provide a simple id so errors can be correlated if needed
-          codeToTranspile = loopProtect(code, { id: `lp-${Date.now()}` })
+        // Transpile global mode to instance mode, using the API names and version
+        // of the p5 runtime loaded in the target iframe when it is known; loops
+        // are guarded and the p5 lint rules run unless the <P5Code> turns them off
+        const loopGuard = parseLoopGuardAttribute(target.editor.getAttribute(LOOP_GUARD_ATTRIBUTE));
+        const lint = parseLintAttribute(target.editor.getAttribute(LINT_ATTRIBUTE));
+        const iframeElement = target.iframe;
+        const targetWindow = iframeElement.contentWindow;
+        const output = globalMode
+          ? prepareGlobalModeSketch(sourceCode, typescript)
+          : await token.race(transpileSketchAsync(sourceCode, {
+            apiTables: resolveP5ApiTables(targetWindow),
+            p5Version: getP5VersionFromUrl(targetWindow?.__p5Addon?.p5ScriptUrl),
+            typescript,
+            loopGuard: loopGuard !== false,
+            lint,
+          }));
+        if (output === null) {
+          return { text: CANCELLED_RUN_TEXT };
         }
-      } catch (e) {
-        void 0
-      }
-
-      // Transpile global mode to instance mode
-      transpiled = transpileGlobalToInstance(codeToTranspile);
-      if (!transpiled) {
-        return { text: 'Error: Failed to transpile p5.js code. Please check syntax.' };
-      }
-      // Check if p5.js is loaded
-      if (typeof window.p5 === 'undefined') {
-        return { 
-          text: 'Error: p5.js library not loaded. Add this to your slides.md headmatter:\n\n---\nhead: |\n  <script src="https://cdn.jsdelivr.net/npm/p5@2.2.0/lib/p5.min.js"></script>\n---' 
-        };
-      }
-      // Try to find P5Canvas/P5Code wrapper and use its container or iframe
-      // Try to find the correct P5Code iframe by UUID, prioritizing Monaco context if available
-      let iframeElement: HTMLIFrameElement | null = null;
-      let codeId = null;
-      // Always use the closest data-p5code-id to the play/run button or code block
-      const playBtn = document.activeElement as HTMLElement | null;
-      if (playBtn && playBtn.closest) {
-        const codeIdEl = playBtn.closest('[data-p5code-id]') as HTMLElement | null;
-        if (codeIdEl) {
-          codeId = codeIdEl.getAttribute('data-p5code-id');
-          iframeElement = document.querySelector(`iframe[data-p5code-id="${codeId}"]`);
+        const diagnostics = combined ? splitDiagnosticsByFile(output.diagnostics, combined.files) : output.diagnostics;
+        const diagnosticSource = combined ? sketchFileSources(combined.code, combined.files) : code;
+        // Let the wrapping <P5Code> show (or clear) diagnostics next to the preview
+        dispatchDiagnostics(target.editor, {
+          diagnostics,
+          sourceCode: diagnosticSource,
+        });
+        if (output.code === null) {
+          return { text: formatDiagnostics(diagnostics, diagnosticSource) };
         }
-      }
-      // Fallback: try the old method (active element ancestry)
-      if (!iframeElement) {
-        const codeIdEl = findClosestP5CodeIdElement(document.activeElement as HTMLElement | null);
-        if (codeIdEl) {
-          codeId = codeIdEl.getAttribute('data-p5code-id');
-          iframeElement = document.querySelector(`iframe[data-p5code-id="${codeId}"]`);
-        }
-      }
-      // GUARD: If we still have no codeId or iframe, refuse to run silently
-      if (!codeId || !iframeElement) {
-        return { text: '' };
-      }
-      // Try a final discovery for iframe if we still don't have one
-      if (!iframeElement) {
-        const containerResult = findP5Container(document.activeElement as HTMLElement);
-        iframeElement = containerResult.iframeElement;
-      }
-      // If still no iframe, refuse to run
-      if (!iframeElement) {
-        return { text: '' };
-      }
-      // If iframe is present, execute code in iframe context
-      if (iframeElement && iframeElement.contentWindow) {
-        // Give the iframe a moment to initialize if needed
-        if (typeof (iframeElement.contentWindow as unknown as { p5?: unknown }).p5 === 'undefined') {
-          return { text: 'Error: p5.js not yet loaded in iframe. Please wait a moment and try again.' };
-        }
-        // Reset resize deduplication state before each execution
-        // This ensures resize events are processed even if canvas dimensions match previous execution
-        const handler = (iframeElement as unknown as { __messageHandler?: { reset?: () => void } }).__messageHandler;
-        if (handler && typeof handler.reset === 'function') {
-          handler.reset();
-        }
-        // Expose the source play button reference BEFORE executing
-        const iw = iframeElement.contentWindow as IframeWindowWithAddon;
-        if (!iw.__p5Addon) iw.__p5Addon = {};
-        iw.__p5Addon.sourcePlayButton = sourcePlayButton;
-        // Execute in iframe context
-        const iframeResult = await executeInIframeContext(iframeElement, transpiled);
-        if (!iframeResult.success) {
-          return { text: `Error in iframe: ${iframeResult.error}` };
+        transpiled = output.code;
+        errorMapping = { sourceMap: output.map, files: combined?.files };
+        // Check if p5.js is loaded
+        if (typeof window.p5 === 'undefined') {
+          return { 
+            text: 'Error: p5.js library not loaded. Add this to your slides.md headmatter:\n\n---\nhead: |\n  <script src="https://cdn.jsdelivr.net/npm/p5@2.2.0/lib/p5.min.js"></script>\n---' 
+          };
         }
-        // Extract stop button controller and log element for cleanup
-        const stopButtonController = iframeResult.stopButtonController;
-        const logElement = iframeResult.element;
-        // Replace any previous observer set for this iframe before registering new ones.
-        const trackedIframe = iframeElement as IframeElementLike;
-        disconnectIframeCleanupManager(trackedIframe);
-        const cleanupManager = new CleanupManager();
-        trackedIframe.__cleanupManager = cleanupManager;
-        let cleanedUp = false;
-        const performRunCleanup = () => {
-          if (cleanedUp) return;
-          cleanedUp = true;
-          try {
-            const iw = iframeElement.contentWindow as IframeWindowWithAddon | null;
-            if (iw?.p5?.instance) {
-              safeRemoveP5(iw.p5.instance);
-            }
-            // Clear iframe content
-            const container = iframeElement.contentWindow?.document.getElementById('p5-container');
-            if (container) {
-              while (container.firstChild) {
-                container.removeChild(container.firstChild);
+        const sourcePlayButton = target.runButton;
+        // If iframe is present, execute code in iframe context
+        if (iframeElement && iframeElement.contentWindow) {
+          // Previews without a readiness handshake may still be loading (global mode loads p5 afresh)
+          if (!globalMode && typeof (iframeElement.contentWindow as unknown as { p5?: unknown }).p5 === 'undefined') {
+            return { text: 'Error: p5.js not yet loaded in iframe. Please wait a moment and try again.' };
+          }
+          // Reset resize deduplication state before each execution
+          // This ensures resize events are processed even if canvas dimensions match previous execution
+          const handler = (iframeElement as unknown as { __messageHandler?: { reset?: () => void } }).__messageHandler;
+          if (handler && typeof handler.reset === 'function') {
+            handler.reset();
+          }
+          // Expose the source play button reference BEFORE executing
+          const iw = iframeElement.contentWindow as IframeWindowWithAddon;
+          if (!iw.__p5Addon) iw.__p5Addon = {};
+          iw.__p5Addon.sourcePlayButton = sourcePlayButton;
+          // Execute in iframe context, replacing the sketch of the last finished run
+          takeOverPreview(iframeElement, token);
+          const iframeResult = globalMode
+            ? await executeGlobalModeInIframe(iframeElement, transpiled, {
+              sourceCode,
+              ...errorMapping,
+              diagnostics,
+              shaders: split?.shaders,
+              token,
+              sketchId: target.sketchId,
+            }, sourcePlayButton)
+            : await executeInIframeContext(iframeElement, transpiled, {
+              sourceCode,
+              ...errorMapping,
+              diagnostics,
+              mode: output.mode,
+              loopGuard,
+              imports: output.imports,
+              shaders: split?.shaders,
+              token,
+              sketchId: target.sketchId,
+            });
+          // A newer run took over the preview while this one was loading
+          if (iframeResult.cancelled || !isCurrentRun(iframeElement, token)) {
+            return { text: CANCELLED_RUN_TEXT };
+          }
+          if (!iframeResult.success) {
+            return { text: `Error in iframe: ${iframeResult.error}` };
+          }
+          // Extract stop button controller and log element for cleanup
+          const stopButtonController = iframeResult.stopButtonController;
+          const logElement = iframeResult.element;
+          // Replace any previous observer set for this iframe before registering new ones.
+          const trackedIframe = iframeElement as IframeElementLike;
+          disconnectIframeCleanupManager(trackedIframe);
+          const cleanupManager = new CleanupManager();
+          trackedIframe.__cleanupManager = cleanupManager;
+          let cleanedUp = false;
+          const performRunCleanup = () => {
+            if (cleanedUp) return;
+            cleanedUp = true;
+            try {
+              const iw = iframeElement.contentWindow as IframeWindowWithAddon | null;
+              if (iw?.p5?.instance) {
+                safeRemoveP5(iw.p5.instance);
               }
-            }
-            // Hide stop button when leaving slide
-            if (stopButtonController) {
-              const stopBtn = stopButtonController.getButton();
-              if (stopBtn && stopBtn.parentElement) {
-                stopBtn.style.display = 'none';
+              // Clear iframe content
+              const container = iframeElement.contentWindow?.document.getElementById('p5-container');
+              if (container) {
+                while (container.firstChild) {
+                  container.removeChild(container.firstChild);
+                }
+              }
+              // Hide stop button when leaving slide
+              if (stopButtonController) {
+                const stopBtn = stopButtonController.getButton();
+                if (stopBtn && stopBtn.parentElement) {
+                  stopBtn.style.display = 'none';
+                }
+              }
+              // Clear console output when leaving slide
+              if (logElement && logElement.textContent) {
+                logElement.textContent = '';
               }
-            }
-            // Clear console output when leaving slide
-            if (logElement && logElement.textContent) {
-              logElement.textContent = '';
-            }
-          } catch (e) {
-            // Silently handle cleanup errors
-          } finally {
-            try {
-              cleanupManager.disconnectAll();
             } catch (e) {
-              // ignore teardown errors
-            }
-            if (trackedIframe.__cleanupManager === cleanupManager) {
-              delete trackedIframe.__cleanupManager;
+              // Silently handle cleanup errors
+            } finally {
+              try {
+                cleanupManager.disconnectAll();
+              } catch (e) {
+                // ignore teardown errors
+              }
+              if (trackedIframe.__cleanupManager === cleanupManager) {
+                delete trackedIframe.__cleanupManager;
+              }
             }
-          }
-        };
-        // Set up cleanup when iframe leaves viewport
-        cleanupManager.observeVisibility(iframeElement, performRunCleanup);
-        // Also clean up if iframe is removed from DOM
-        const mutationParent = (iframeElement.ownerDocument?.body || document.body) as HTMLElement | null;
-        cleanupManager.observeMutation(mutationParent, iframeElement, performRunCleanup);
+          };
+          // Set up cleanup when iframe leaves viewport
+          cleanupManager.observeVisibility(iframeElement, performRunCleanup);
+          // Also clean up if iframe is removed from DOM
+          const mutationParent = (iframeElement.ownerDocument?.body || document.body) as HTMLElement | null;
+          cleanupManager.observeMutation(mutationParent, iframeElement, performRunCleanup);
+          token.finish();
         
-        if (iframeResult.element) {
-          return { element: iframeResult.element };
+          if (iframeResult.element) {
+            return { element: iframeResult.element };
+          }
+          return { text: 'Sketch loaded successfully' };
         }
-        return { text: 'Sketch loaded successfully' };
-      }
       
-      // DOM fallback removed: require an iframe to run p5 sketches.
-      return { text: 'Error: No iframe found for p5 execution. Ensure a P5Canvas/P5Code iframe is present.' };
-    } catch (error: unknown) {
-      const mappedError = formatErrorWithLineMapping(error, code, transpiled || code, 0);
-      return { text: mappedError };
+        // DOM fallback removed: require an iframe to run p5 sketches.
+        return { text: 'Error: No iframe found for p5 execution. Ensure a P5Canvas/P5Code iframe is present.' };
+      } catch (error: unknown) {
+        const mappedError = formatErrorWithLineMapping(error, sourceCode, transpiled || sourceCode, 0, errorMapping);
+        return { text: mappedError };
+      }
+    };
+    const readiness = globalMode ? null : findIframeReadiness(target.iframe);
+    if (readiness && readiness.state !== 'ready') {
+      // Queue the run until the preview's `p5-iframe-ready` handshake
+      const queued = token.race(readiness.whenReady()).then((ready) => {
+        if (ready === null) return { text: CANCELLED_RUN_TEXT };
+        return 'error' in ready ? { text: ready.error } : runSketch();
+      });
+      return readiness.state === 'loading' ? { element: createPendingOutput(queued) } : queued;
     }
+    return runSketch();
   };
   
+  /**
+   * Runner for the GLSL tabs of a `<P5Code>`: swaps the edited shader into
+   * the running sketch instead of restarting it (see `setup/sketch-shaders.ts`)
+   */
+  const runShader: NonNullable<RunnerType['glsl']> = async (code: string, ctx: unknown) => {
+    const resolved = resolveRunTarget(ctx);
+    const target = 'target' in resolved ? resolved.target : null;
+    const shader = target?.file ? toShaderFile(target.file, code) : null;
+    if (!shader || !target) {
+      const defaultRunner = runner?.glsl;
+      if (defaultRunner) {
+        return defaultRunner(code, ctx as unknown as JsRunnerCtx);
+      }
+      return {
+        text: 'Error: GLSL fences run as shaders of a <P5Code> sketch. Name the fence main.vert or main.frag ({filename: \'main.frag\'}).',
+      };
+    }
+    const iframeWindow = target.iframe.contentWindow;
+    const updated = iframeWindow ? updateSketchShader(iframeWindow, shader) : null;
+    if (updated === null) {
+      return { text: 'Error: The preview is not ready yet. Run the sketch first.' };
+    }
+    return {
+      text: updated > 0
+        ? `Updated ${shader.file} in the running sketch.`
+        : `${shader.file} is not used by the running sketch yet. Run the sketch to use it.`,
+    };
+  };
+
+  const customJs = createP5Runner('js');
+  const customTs = createP5Runner('ts');
   return {
     ...runner,
     js: customJs,
     javascript: customJs,
+    ts: customTs,
+    typescript: customTs,
+    p5: createP5Runner('p5'),
+    glsl: runShader,
   };
 });
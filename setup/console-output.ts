@@ -0,0 +1,436 @@
+/**
+ * Console Output - Renders a sketch's console in the Monaco output panel
+ *
+ * The console wrapper (`setup/console-wrapper.ts`) serializes each console
+ * call inside the iframe into a {@link ConsoleEntry}; {@link ConsoleOutput}
+ * renders the entries:
+ * - one line per message, color-coded by level,
+ * - objects, arrays, `Map`s and `Set`s as collapsible trees (children are
+ *   built when a node is first opened),
+ * - `console.group` as a collapsible section, `console.table` as a table,
+ *   `console.clear` by emptying the output,
+ * - at most once per animation frame, with repeats collapsed and older
+ *   lines dropped past a limit.
+ *
+ * Text from the runner itself (diagnostics, runtime errors, stop button
+ * notes) goes through {@link ConsoleOutput.appendText}.
+ */
+
+/**
+ * Level of a console message
+ */
+export type ConsoleLevel = "log" | "info" | "debug" | "warn" | "error";
+
+/**
+ * A logged value, serialized in the iframe when it was logged
+ */
+export interface ConsoleValue {
+  kind:
+    | "string" | "number" | "boolean" | "bigint" | "symbol" | "null" | "undefined"
+    | "function" | "vector" | "error" | "element" | "circular"
+    | "object" | "array" | "map" | "set";
+  /** One-line text, e.g. `{x: 1, y: 2}` or `p5.Vector(1, 2, 0)` */
+  preview: string;
+  /** Short name of a container, e.g. `Array(3)`, shown when nested */
+  label?: string;
+  /** Children of a container; absent when it was too deep to serialize */
+  entries?: Array<{ key: string; value: ConsoleValue }>;
+  /** Children left out of `entries` */
+  more?: number;
+}
+
+/**
+ * Rows of a `console.table` call
+ */
+export interface ConsoleTable {
+  columns: string[];
+  rows: Array<{ key: string; cells: Record<string, ConsoleValue> }>;
+  /** Rows left out */
+  more: number;
+}
+
+/**
+ * One console call, as sent by the console wrapper
+ */
+export interface ConsoleEntry {
+  kind: "message" | "table" | "group" | "groupEnd" | "clear";
+  level: ConsoleLevel;
+  /** Arguments of the call (the label of a group) */
+  args: ConsoleValue[];
+  /** `console.groupCollapsed` */
+  collapsed?: boolean;
+  table?: ConsoleTable;
+}
+
+/**
+ * Entry of a line of plain text, e.g. a diagnostic or a runtime error
+ *
+ * @param text - The text; may span several lines
+ * @param level - Level it is colored by
+ */
+export const textEntry = (text: string, level: ConsoleLevel = "log"): ConsoleEntry => ({
+  kind: "message",
+  level,
+  args: [{ kind: "string", preview: text }],
+});
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: "",
+  info: "color: #2f80ed;",
+  debug: "opacity: 0.7;",
+  warn: "color: #b7791f; background: rgba(245, 165, 36, 0.1);",
+  error: "color: #e5484d; background: rgba(229, 72, 77, 0.08);",
+};
+
+const KIND_COLORS: Partial<Record<ConsoleValue["kind"], string>> = {
+  string: "#22863a",
+  number: "#6f42c1",
+  boolean: "#6f42c1",
+  bigint: "#6f42c1",
+  symbol: "#6f42c1",
+  null: "#888",
+  undefined: "#888",
+  circular: "#888",
+  function: "#b7791f",
+  vector: "#2f80ed",
+  element: "#2f80ed",
+};
+
+/**
+ * Lines an output keeps by default; older lines are dropped
+ */
+export const CONSOLE_MAX_LINES = 500;
+
+/**
+ * A console call or runner text waiting for the next frame
+ */
+interface PendingLine {
+  /** Identity of the line for collapsing repeats; null for groups and clears */
+  key: string | null;
+  /** Times it was logged in a row */
+  count: number;
+  entry: ConsoleEntry;
+}
+
+/**
+ * The last line rendered, which an identical message repeats
+ */
+interface LastLine {
+  key: string;
+  line: HTMLElement;
+  count: number;
+  badge: HTMLElement | null;
+}
+
+/**
+ * Console of one run, rendered into an output element
+ *
+ * A sketch logging from `draw()` sends a message every frame, so calls are
+ * queued and rendered once per animation frame, identical consecutive
+ * messages become one line with a repeat counter, and only the last
+ * `maxLines` lines are kept (a notice counts the dropped ones).
+ */
+export class ConsoleOutput {
+  readonly element: HTMLElement;
+  private groups: HTMLElement[] = [];
+  private pending: PendingLine[] = [];
+  private lines: HTMLElement[] = [];
+  private last: LastLine | null = null;
+  private dropped = 0;
+  private notice: HTMLElement | null = null;
+  private scheduled = false;
+
+  /**
+   * @param maxLines - Lines kept before the oldest are dropped
+   */
+  constructor(private readonly maxLines: number = CONSOLE_MAX_LINES) {
+    this.element = document.createElement("div");
+    this.element.className = "p5-console-output";
+    this.element.style.cssText =
+      "max-height: 10em; overflow: auto; margin: 0; white-space: pre-wrap; font-family: var(--slidev-code-font-family, monospace);";
+  }
+
+  /**
+   * Queue a console call, rendered on the next animation frame
+   *
+   * @param entry - Entry sent by the console wrapper
+   */
+  append(entry: ConsoleEntry): void {
+    if (entry.kind === "clear") {
+      // Lines still waiting would be cleared at once
+      this.pending = [];
+    }
+    const key = entry.kind === "message" || entry.kind === "table" ? JSON.stringify(entry) : null;
+    const previous = this.pending[this.pending.length - 1];
+    if (key !== null && previous?.key === key) {
+      previous.count++;
+    } else {
+      this.pending.push({ key, count: 1, entry });
+      this.trimPending();
+    }
+    this.schedule();
+  }
+
+  /**
+   * Queue a line of plain text, e.g. a diagnostic or a runtime error
+   *
+   * @param text - The text; may span several lines
+   * @param level - Level it is colored by
+   */
+  appendText(text: string, level: ConsoleLevel = "log"): void {
+    this.append(textEntry(text, level));
+  }
+
+  /**
+   * Count lines dropped before they reached this output, e.g. by a console
+   * stream that kept only its last entries (see `setup/console-stream.ts`)
+   *
+   * @param count - Number of dropped lines, added to the notice
+   */
+  addDropped(count: number): void {
+    if (count <= 0) return;
+    this.dropped += count;
+    this.schedule();
+  }
+
+  /**
+   * Render the queued lines now instead of on the next frame
+   */
+  flush(): void {
+    this.scheduled = false;
+    const pending = this.pending;
+    this.pending = [];
+    for (const item of pending) this.render(item);
+    this.trimLines();
+    if (pending.length > 0) this.element.scrollTop = this.element.scrollHeight;
+  }
+
+  /**
+   * Remove all output, queued lines included, and close open groups
+   */
+  clear(): void {
+    this.element.replaceChildren();
+    this.groups = [];
+    this.pending = [];
+    this.lines = [];
+    this.last = null;
+    this.dropped = 0;
+    this.notice = null;
+  }
+
+  private schedule(): void {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    if (typeof requestAnimationFrame === "function") {
+      requestAnimationFrame(() => this.flush());
+    } else {
+      setTimeout(() => this.flush(), 16);
+    }
+  }
+
+  private render(item: PendingLine): void {
+    const { entry } = item;
+    if (item.key !== null && this.last?.key === item.key) {
+      this.repeat(this.last, item.count);
+      return;
+    }
+    this.last = null;
+    switch (entry.kind) {
+      case "clear":
+        this.clear();
+        this.addLine(this.createLine("debug", [textNode("Console was cleared")]));
+        return;
+      case "groupEnd":
+        this.groups.pop();
+        return;
+      case "group": {
+        const details = document.createElement("details");
+        details.open = !entry.collapsed;
+        const summary = document.createElement("summary");
+        summary.style.cssText = "cursor: pointer; font-weight: bold;";
+        summary.append(...entry.args.map((arg) => renderValue(arg, false)).flatMap(spaced));
+        const body = document.createElement("div");
+        body.style.cssText = "padding-left: 1.2em;";
+        details.append(summary, body);
+        this.addLine(this.createLine(entry.level, [details]));
+        this.groups.push(body);
+        return;
+      }
+      case "table":
+        this.addRepeatable(item, [entry.table ? renderTable(entry.table) : renderValue(entry.args[0], false)]);
+        return;
+      default:
+        this.addRepeatable(item, entry.args.map((arg) => renderValue(arg, false)).flatMap(spaced));
+    }
+  }
+
+  private addRepeatable(item: PendingLine, children: Node[]): void {
+    const line = this.createLine(item.entry.level, children);
+    this.addLine(line);
+    if (item.key === null) return;
+    this.last = { key: item.key, line, count: 0, badge: null };
+    this.repeat(this.last, item.count);
+  }
+
+  /**
+   * Count repeats of the last line in a badge before it
+   */
+  private repeat(last: LastLine, times: number): void {
+    last.count += times;
+    if (last.count < 2) return;
+    if (!last.badge) {
+      last.badge = document.createElement("span");
+      last.badge.className = "p5-console-repeat";
+      last.badge.style.cssText =
+        "display: inline-block; min-width: 1.5em; margin-right: 0.5em; padding: 0 0.4em; border-radius: 0.75em; background: rgba(128, 128, 128, 0.25); font-size: 0.85em; text-align: center;";
+      last.line.prepend(last.badge);
+    }
+    last.badge.textContent = String(last.count);
+  }
+
+  private createLine(level: ConsoleLevel, children: Node[]): HTMLElement {
+    const line = document.createElement("div");
+    line.dataset.level = level;
+    line.style.cssText = LEVEL_STYLES[level];
+    line.append(...children);
+    return line;
+  }
+
+  private addLine(line: HTMLElement): void {
+    (this.groups[this.groups.length - 1] ?? this.element).appendChild(line);
+    this.lines.push(line);
+  }
+
+  /**
+   * Drop the oldest queued lines past `maxLines` (groups and clears are kept
+   * so the nesting stays right)
+   */
+  private trimPending(): void {
+    while (this.pending.length > this.maxLines) {
+      const index = this.pending.findIndex((item) => item.key !== null);
+      if (index === -1) return;
+      this.dropped += this.pending[index].count;
+      this.pending.splice(index, 1);
+    }
+  }
+
+  /**
+   * Drop the oldest rendered lines past `maxLines` and update the notice
+   *
+   * A dropped group takes its nested lines with it; each counts as dropped.
+   */
+  private trimLines(): void {
+    const target = this.groups[this.groups.length - 1];
+    let excess = this.lines.length - this.maxLines;
+    if (excess > 0) {
+      const removed: HTMLElement[] = [];
+      this.lines = this.lines.filter((line) => {
+        const inRemoved = removed.some((group) => group.contains(line));
+        // Keep the line of a group still being logged into
+        if (!inRemoved && (excess <= 0 || (target && line.contains(target)))) return true;
+        if (!inRemoved) {
+          line.remove();
+          removed.push(line);
+        }
+        excess--;
+        this.dropped++;
+        return false;
+      });
+    }
+    if (this.dropped === 0) return;
+    if (!this.notice) {
+      this.notice = document.createElement("div");
+      this.notice.className = "p5-console-dropped";
+      this.notice.style.cssText = "opacity: 0.7; font-style: italic;";
+    }
+    this.notice.textContent = `… ${this.dropped} older ${this.dropped === 1 ? "line was" : "lines were"} dropped`;
+    if (this.element.firstChild !== this.notice) this.element.prepend(this.notice);
+  }
+}
+
+const textNode = (text: string): Text => document.createTextNode(text);
+
+const spaced = (node: Node, index: number): Node[] => (index === 0 ? [node] : [textNode(" "), node]);
+
+/**
+ * Render a value: a colored leaf, or a tree whose children are built on open
+ *
+ * @param value - The serialized value
+ * @param nested - Whether it is shown inside another value (strings are then quoted)
+ */
+const renderValue = (value: ConsoleValue | undefined, nested: boolean): Node => {
+  if (!value) return textNode("");
+  if (!value.entries || (value.entries.length === 0 && !value.more)) {
+    if (value.kind === "string" && !nested) return textNode(value.preview);
+    const leaf = document.createElement("span");
+    leaf.textContent = value.kind === "string" ? JSON.stringify(value.preview) : value.preview;
+    const color = KIND_COLORS[value.kind];
+    if (color) leaf.style.color = color;
+    return leaf;
+  }
+  const entries = value.entries;
+  const details = document.createElement("details");
+  details.style.cssText = "display: inline-block; vertical-align: top;";
+  const summary = document.createElement("summary");
+  summary.style.cssText = "cursor: pointer;";
+  summary.textContent = value.preview;
+  details.appendChild(summary);
+  let built = false;
+  details.addEventListener("toggle", () => {
+    if (!details.open || built) return;
+    built = true;
+    const body = document.createElement("div");
+    body.style.cssText = "padding-left: 1.2em;";
+    for (const entry of entries) {
+      const row = document.createElement("div");
+      const key = document.createElement("span");
+      key.style.color = "#a626a4";
+      key.textContent = entry.key;
+      row.append(key, textNode(value.kind === "map" ? " => " : ": "), renderValue(entry.value, true));
+      body.appendChild(row);
+    }
+    if (value.more) {
+      const more = document.createElement("div");
+      more.style.opacity = "0.7";
+      more.textContent = `… ${value.more} more`;
+      body.appendChild(more);
+    }
+    details.appendChild(body);
+  });
+  return details;
+};
+
+/**
+ * Render the rows of a `console.table` call
+ *
+ * @param table - Rows and columns from the console wrapper
+ */
+const renderTable = (table: ConsoleTable): HTMLElement => {
+  const element = document.createElement("table");
+  element.style.cssText = "border-collapse: collapse; margin: 0.25em 0;";
+  const cell = (tag: "th" | "td", content: Node) => {
+    const el = document.createElement(tag);
+    el.style.cssText = "border: 1px solid rgba(128, 128, 128, 0.4); padding: 0 0.5em; text-align: left;";
+    el.appendChild(content);
+    return el;
+  };
+  const head = document.createElement("tr");
+  head.append(cell("th", textNode("(index)")), ...table.columns.map((column) => cell("th", textNode(column))));
+  element.appendChild(head);
+  for (const row of table.rows) {
+    const tr = document.createElement("tr");
+    tr.append(
+      cell("td", textNode(row.key)),
+      ...table.columns.map((column) => cell("td", row.cells[column] ? renderValue(row.cells[column], true) : textNode("")))
+    );
+    element.appendChild(tr);
+  }
+  if (table.more > 0) {
+    const tr = document.createElement("tr");
+    const td = cell("td", textNode(`… ${table.more} more rows`));
+    td.colSpan = table.columns.length + 1;
+    tr.appendChild(td);
+    element.appendChild(tr);
+  }
+  return element;
+};
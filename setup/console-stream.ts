@@ -0,0 +1,113 @@
+/**
+ * Console Stream - Console entries of a sketch, by the sketch's author id
+ *
+ * `<P5Canvas id="…">` and `<P5Code id="…">` publish the console entries of
+ * each run (see `ConsoleEntry` in `setup/console-output.ts`) under their
+ * `id`; `<P5Console for="…">` subscribes to them and can sit anywhere in the
+ * same window, on another slide or in presenter notes. A stream keeps its
+ * last entries and counts the older ones it dropped, so a console mounted
+ * after the sketch started shows the same lines and notice as the runner
+ * output; a new run resets it.
+ */
+import { CONSOLE_MAX_LINES } from "./console-output";
+import type { ConsoleEntry } from "./console-output";
+
+/**
+ * Attribute carrying the author id of a `<P5Code>` on its editor container
+ */
+export const SKETCH_ID_ATTRIBUTE = "data-p5-sketch-id";
+
+/**
+ * Event delivered to the subscribers of a stream
+ */
+export type ConsoleStreamEvent =
+  | { type: "entry"; entry: ConsoleEntry }
+  | { type: "dropped"; count: number }
+  | { type: "reset" };
+
+type ConsoleStreamListener = (event: ConsoleStreamEvent) => void;
+
+interface ConsoleStream {
+  history: ConsoleEntry[];
+  /** Entries dropped from the start of `history` since the last clear */
+  dropped: number;
+  listeners: Set<ConsoleStreamListener>;
+}
+
+const streams = new Map<string, ConsoleStream>();
+
+const getStream = (id: string): ConsoleStream => {
+  let stream = streams.get(id);
+  if (!stream) {
+    stream = { history: [], dropped: 0, listeners: new Set() };
+    streams.set(id, stream);
+  }
+  return stream;
+};
+
+const notify = (stream: ConsoleStream, event: ConsoleStreamEvent): void => {
+  stream.listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (e) {
+      // One broken console must not silence the others
+    }
+  });
+};
+
+/**
+ * Publish a console entry of a sketch
+ *
+ * @param id - Author id of the sketch
+ * @param entry - The entry
+ */
+export const publishConsoleEntry = (id: string, entry: ConsoleEntry): void => {
+  const stream = getStream(id);
+  if (entry.kind === "clear") {
+    stream.history = [];
+    stream.dropped = 0;
+  }
+  stream.history.push(entry);
+  if (stream.history.length > CONSOLE_MAX_LINES) {
+    stream.dropped += stream.history.splice(0, stream.history.length - CONSOLE_MAX_LINES).length;
+  }
+  notify(stream, { type: "entry", entry });
+};
+
+/**
+ * Start a new run of a sketch: forget its entries and clear its consoles
+ *
+ * @param id - Author id of the sketch
+ */
+export const resetConsoleStream = (id: string): void => {
+  const stream = getStream(id);
+  stream.history = [];
+  stream.dropped = 0;
+  notify(stream, { type: "reset" });
+};
+
+/**
+ * Follow the console of a sketch
+ *
+ * @param id - Author id of the sketch
+ * @param listener - Receives the number of entries dropped so far (if any)
+ *   and the entries kept, then each new entry and reset
+ * @returns Function ending the subscription
+ *
+ * @example
+ * const unsubscribe = subscribeConsoleStream('bouncing-ball', (event) => {
+ *   if (event.type === 'reset') output.clear();
+ *   else if (event.type === 'dropped') output.addDropped(event.count);
+ *   else output.append(event.entry);
+ * });
+ */
+export const subscribeConsoleStream = (id: string, listener: ConsoleStreamListener): (() => void) => {
+  const stream = getStream(id);
+  if (stream.dropped > 0) listener({ type: "dropped", count: stream.dropped });
+  stream.history.forEach((entry) => listener({ type: "entry", entry }));
+  stream.listeners.add(listener);
+  return () => {
+    stream.listeners.delete(listener);
+    if (stream.listeners.size === 0 && stream.history.length === 0) streams.delete(id);
+  };
+};
@@ -6,17 +6,27 @@
  *
  * Console output is captured to display in the Monaco code runner's output panel
  * instead of the browser console, giving users immediate feedback.
+ *
+ * Calls are sent as structured entries (see `ConsoleEntry` in
+ * `setup/console-output.ts`): arguments are serialized inside the iframe
+ * when logged, so circular p5 objects, `p5.Vector`s, `Map`s and `Set`s keep
+ * their shape, and the output panel renders them as collapsible trees.
  */
+import { CONSOLE_MAX_LINES } from "./console-output";
 
 /**
  * Create the console wrapper JavaScript code for iframe execution
  *
- * This code is injected into the iframe to override console.log/error/warn methods
- * and forward output to the parent window via callbacks.
+ * This code is injected into the iframe to override the console methods
+ * (`log`, `info`, `debug`, `warn`, `error`, `dir`, `table`, `group`,
+ * `groupCollapsed`, `groupEnd`, `count`, `countReset`, `time`, `timeLog`,
+ * `timeEnd`, `assert`, `clear`) and forward output to the parent window via
+ * callbacks.
  *
  * The code assumes these are available in the iframe context:
- * - window.__p5Addon.logs: string[] array to store log messages
- * - window.__p5Addon.appendLog: function to forward logs to parent
+ * - window.__p5Addon.logs: string[] array keeping the last messages as text
+ * - window.__p5Addon.appendEntry: function receiving structured entries;
+ *   when absent, messages go to window.__p5Addon.appendLog as text
  * - window.__p5Addon.originalLog/Error/Warn: original console methods
  *
  * @returns JavaScript code string that wraps console methods
@@ -32,65 +42,299 @@
 export const getConsoleWrapperScript = (): string => {
   return `
 // Wrap console with direct function definitions
-window.console.log = function(...args) {
-  try {
-    const message = args.map(arg => {
-      if (typeof arg === 'object') {
-        try { return JSON.stringify(arg); }
-        catch { return String(arg); }
-      }
-      return String(arg);
-    }).join(' ');
-    window.__p5Addon.logs.push(message);
-    if (typeof window.__p5Addon.appendLog === 'function') {
-      window.__p5Addon.appendLog(message);
+(function() {
+  var addon = window.__p5Addon;
+  var MAX_DEPTH = 4;
+  var MAX_ENTRIES = 100;
+  var MAX_NODES = 2000;
+  var MAX_STRING = 10000;
+  var PREVIEW_ENTRIES = 5;
+  var MAX_LOGS = ${CONSOLE_MAX_LINES};
+  var originals = addon.originalConsole = addon.originalConsole || {};
+  var saved = { log: addon.originalLog, error: addon.originalError, warn: addon.originalWarn };
+  ['log', 'info', 'debug', 'warn', 'error', 'dir', 'table', 'group', 'groupCollapsed', 'groupEnd',
+    'count', 'countReset', 'time', 'timeLog', 'timeEnd', 'assert', 'clear'].forEach(function(name) {
+    if (originals[name]) return;
+    var method = saved[name] || window.console[name];
+    originals[name] = typeof method === 'function' ? method.bind(window.console) : function() {};
+  });
+  var counts = {};
+  var timers = {};
+
+  var isVector = function(value) {
+    var P5 = window.p5;
+    return !!(P5 && typeof P5.Vector === 'function' && value instanceof P5.Vector);
+  };
+  var formatNumber = function(n) {
+    return Object.is(n, -0) ? '-0' : String(n);
+  };
+  var className = function(value) {
+    try {
+      var proto = Object.getPrototypeOf(value);
+      if (proto === null) return 'Object';
+      return (proto.constructor && proto.constructor.name) || 'Object';
+    } catch (e) {
+      return 'Object';
     }
-    window.__p5Addon.originalLog(...args);
-  } catch (e) {
-    window.__p5Addon.originalLog('[p5 Console Bridge Error]', e);
-  }
-};
+  };
+  // Text of a value nested in a preview: strings quoted, containers named
+  var shortText = function(node) {
+    if (node.kind === 'string') return JSON.stringify(node.preview);
+    return node.label || node.preview;
+  };
 
-window.console.error = function(...args) {
-  try {
-    const message = 'Error: ' + args.map(arg => {
-      if (typeof arg === 'object') {
+  var serialize = function(value, depth, seen, budget) {
+    var type = typeof value;
+    budget.nodes++;
+    if (value === null) return { kind: 'null', preview: 'null' };
+    if (type === 'undefined') return { kind: 'undefined', preview: 'undefined' };
+    if (type === 'string') {
+      return { kind: 'string', preview: value.length > MAX_STRING ? value.slice(0, MAX_STRING) + '…' : value };
+    }
+    if (type === 'number') return { kind: 'number', preview: formatNumber(value) };
+    if (type === 'boolean') return { kind: 'boolean', preview: String(value) };
+    if (type === 'bigint') return { kind: 'bigint', preview: String(value) + 'n' };
+    if (type === 'symbol') return { kind: 'symbol', preview: String(value) };
+    if (type === 'function') return { kind: 'function', preview: 'ƒ ' + (value.name || 'anonymous') + '()' };
+    if (seen.indexOf(value) !== -1) return { kind: 'circular', preview: '[Circular]' };
+    if (isVector(value)) {
+      var coords = [value.x, value.y, value.z].map(function(c) { return typeof c === 'number' ? formatNumber(c) : String(c); });
+      return { kind: 'vector', preview: 'p5.Vector(' + coords.join(', ') + ')' };
+    }
+    if (value instanceof Error || (typeof value.message === 'string' && typeof value.stack === 'string')) {
+      return { kind: 'error', preview: (value.name || 'Error') + ': ' + value.message };
+    }
+    if (typeof window.Node === 'function' && value instanceof window.Node) {
+      var tag = value.nodeType === 1 ? '<' + value.nodeName.toLowerCase() + (value.id ? '#' + value.id : '') + '>' : value.nodeName;
+      return { kind: 'element', preview: tag };
+    }
+
+    var kind, label, pairs;
+    var name = className(value);
+    var size;
+    if (Array.isArray(value)) {
+      kind = 'array';
+      size = value.length;
+      label = 'Array(' + size + ')';
+      pairs = function(limit) {
+        return value.slice(0, limit).map(function(item, i) { return [String(i), item]; });
+      };
+    } else if (value instanceof Map) {
+      kind = 'map';
+      size = value.size;
+      label = 'Map(' + size + ')';
+      pairs = function(limit) {
+        var out = [];
+        value.forEach(function(v, k) {
+          if (out.length < limit) out.push([typeof k === 'string' ? JSON.stringify(k) : String(k), v]);
+        });
+        return out;
+      };
+    } else if (value instanceof Set) {
+      kind = 'set';
+      size = value.size;
+      label = 'Set(' + size + ')';
+      pairs = function(limit) {
+        return Array.from(value).slice(0, limit).map(function(item, i) { return [String(i), item]; });
+      };
+    } else {
+      var keys = Object.keys(value);
+      kind = 'object';
+      size = keys.length;
+      label = name === 'Object' ? '{…}' : name;
+      pairs = function(limit) {
+        return keys.slice(0, limit).map(function(key) {
+          try {
+            return [key, value[key]];
+          } catch (e) {
+            return [key, '[Exception: ' + (e && e.message) + ']'];
+          }
+        });
+      };
+    }
+    // Too deep or too large: name it without its entries
+    if (depth >= MAX_DEPTH || budget.nodes >= MAX_NODES) {
+      return { kind: kind, preview: label, label: label };
+    }
+    seen.push(value);
+    var entries = pairs(MAX_ENTRIES).map(function(pair) {
+      return { key: pair[0], value: serialize(pair[1], depth + 1, seen, budget) };
+    });
+    seen.pop();
+    var shown = entries.slice(0, PREVIEW_ENTRIES).map(function(entry) {
+      if (kind === 'array' || kind === 'set') return shortText(entry.value);
+      return entry.key + (kind === 'map' ? ' => ' : ': ') + shortText(entry.value);
+    });
+    if (size > PREVIEW_ENTRIES) shown.push('…');
+    var preview = kind === 'array'
+      ? (size > PREVIEW_ENTRIES ? '(' + size + ') ' : '') + '[' + shown.join(', ') + ']'
+      : (kind === 'object' ? (name === 'Object' ? '' : name + ' ') : label + ' ') + '{' + shown.join(', ') + '}';
+    var node = { kind: kind, preview: preview, label: label, entries: entries };
+    if (size > entries.length) node.more = size - entries.length;
+    return node;
+  };
+
+  var serializeArgs = function(args) {
+    var budget = { nodes: 0 };
+    return args.map(function(arg) { return serialize(arg, 0, [], budget); });
+  };
+  var toText = function(args) {
+    return args.map(function(arg) {
+      if (typeof arg === 'object' && arg !== null) {
         try { return JSON.stringify(arg); }
-        catch { return String(arg); }
+        catch (e) { return serialize(arg, MAX_DEPTH, [], { nodes: 0 }).preview; }
       }
       return String(arg);
     }).join(' ');
-    window.__p5Addon.logs.push(message);
-    if (typeof window.__p5Addon.appendLog === 'function') {
-      window.__p5Addon.appendLog(message);
+  };
+  var now = function() {
+    return window.performance && typeof window.performance.now === 'function' ? window.performance.now() : Date.now();
+  };
+
+  // Hand an entry to the output panel (as text when it takes no entries)
+  // and to the browser console
+  var emit = function(entry, text, method, args) {
+    try {
+      if (text !== null && addon.logs) {
+        addon.logs.push(text);
+        if (addon.logs.length > MAX_LOGS) addon.logs.splice(0, addon.logs.length - MAX_LOGS);
+      }
+      if (typeof addon.appendEntry === 'function') {
+        addon.appendEntry(entry);
+      } else if (text !== null && typeof addon.appendLog === 'function') {
+        addon.appendLog(text);
+      }
+      originals[method].apply(window.console, args);
+    } catch (e) {
+      originals.log('[p5 Console Bridge Error]', e);
     }
-    window.__p5Addon.originalError(...args);
-  } catch (e) {
-    window.__p5Addon.originalLog('[p5 Console Bridge Error]', e);
-  }
-};
+  };
+  var PREFIX = { error: 'Error: ', warn: 'Warning: ' };
+  var message = function(level, method) {
+    return function() {
+      var args = Array.prototype.slice.call(arguments);
+      emit({ kind: 'message', level: level, args: serializeArgs(args) }, (PREFIX[level] || '') + toText(args), method, args);
+    };
+  };
+  var note = function(level, method, args, output) {
+    emit({ kind: 'message', level: level, args: serializeArgs(output) }, (PREFIX[level] || '') + toText(output), method, args);
+  };
 
-window.console.warn = function(...args) {
-  try {
-    const message = 'Warning: ' + args.map(arg => {
-      if (typeof arg === 'object') {
-        try { return JSON.stringify(arg); }
-        catch { return String(arg); }
+  window.console.log = message('log', 'log');
+  window.console.info = message('info', 'info');
+  window.console.debug = message('debug', 'debug');
+  window.console.warn = message('warn', 'warn');
+  window.console.error = message('error', 'error');
+  window.console.dir = function(value) {
+    emit({ kind: 'message', level: 'log', args: serializeArgs([value]) }, toText([value]), 'dir', [value]);
+  };
+
+  window.console.table = function(data, columns) {
+    var args = Array.prototype.slice.call(arguments);
+    if (data === null || typeof data !== 'object') {
+      note('log', 'table', args, [data]);
+      return;
+    }
+    var filter = Array.isArray(columns) ? columns.map(String) : null;
+    var budget = { nodes: 0 };
+    var source = data instanceof Map
+      ? Array.from(data.entries()).map(function(pair) { return [String(pair[0]), pair[1]]; })
+      : Object.keys(data).map(function(key) { return [key, data[key]]; });
+    var cols = filter ? filter.slice() : [];
+    var hasValues = false;
+    var rows = source.slice(0, MAX_ENTRIES).map(function(pair) {
+      var key = pair[0];
+      var row = pair[1];
+      var cells = {};
+      if (row !== null && typeof row === 'object' && !isVector(row)) {
+        Object.keys(row).forEach(function(col) {
+          if (filter && filter.indexOf(col) === -1) return;
+          if (cols.indexOf(col) === -1) cols.push(col);
+          cells[col] = serialize(row[col], MAX_DEPTH, [], budget);
+        });
+      } else if (!filter) {
+        hasValues = true;
+        cells.Value = serialize(row, MAX_DEPTH, [], budget);
       }
-      return String(arg);
-    }).join(' ');
-    window.__p5Addon.logs.push(message);
-    if (typeof window.__p5Addon.appendLog === 'function') {
-      window.__p5Addon.appendLog(message);
+      return { key: key, cells: cells };
+    });
+    if (hasValues) cols.push('Value');
+    emit({
+      kind: 'table',
+      level: 'log',
+      args: serializeArgs([data]),
+      table: { columns: cols, rows: rows, more: source.length - rows.length },
+    }, toText([data]), 'table', args);
+  };
+
+  var group = function(collapsed, method) {
+    return function() {
+      var args = Array.prototype.slice.call(arguments);
+      var label = args.length > 0 ? args : ['console.group'];
+      emit({ kind: 'group', level: 'log', args: serializeArgs(label), collapsed: collapsed }, toText(label), method, args);
+    };
+  };
+  window.console.group = group(false, 'group');
+  window.console.groupCollapsed = group(true, 'groupCollapsed');
+  window.console.groupEnd = function() {
+    emit({ kind: 'groupEnd', level: 'log', args: [] }, null, 'groupEnd', []);
+  };
+
+  window.console.count = function(label) {
+    var key = label === undefined ? 'default' : String(label);
+    counts[key] = (counts[key] || 0) + 1;
+    note('info', 'count', Array.prototype.slice.call(arguments), [key + ': ' + counts[key]]);
+  };
+  window.console.countReset = function(label) {
+    var key = label === undefined ? 'default' : String(label);
+    if (counts[key] === undefined) {
+      note('warn', 'countReset', Array.prototype.slice.call(arguments), ["Count for '" + key + "' does not exist"]);
+      return;
     }
-    window.__p5Addon.originalWarn(...args);
-  } catch (e) {
-    window.__p5Addon.originalLog('[p5 Console Bridge Error]', e);
-  }
-};
+    counts[key] = 0;
+  };
+
+  window.console.time = function(label) {
+    var key = label === undefined ? 'default' : String(label);
+    if (timers[key] !== undefined) {
+      note('warn', 'time', Array.prototype.slice.call(arguments), ["Timer '" + key + "' already exists"]);
+      return;
+    }
+    timers[key] = now();
+  };
+  var elapsed = function(end, method) {
+    return function(label) {
+      var args = Array.prototype.slice.call(arguments);
+      var key = label === undefined ? 'default' : String(label);
+      if (timers[key] === undefined) {
+        note('warn', method, args, ["Timer '" + key + "' does not exist"]);
+        return;
+      }
+      var ms = now() - timers[key];
+      if (end) delete timers[key];
+      note('log', method, args, [key + ': ' + ms.toFixed(3) + ' ms'].concat(args.slice(1)));
+    };
+  };
+  window.console.timeLog = elapsed(false, 'timeLog');
+  window.console.timeEnd = elapsed(true, 'timeEnd');
+
+  window.console.assert = function(condition) {
+    if (condition) return;
+    var args = Array.prototype.slice.call(arguments);
+    var data = args.slice(1);
+    var output = typeof data[0] === 'string'
+      ? ['Assertion failed: ' + data[0]].concat(data.slice(1))
+      : ['Assertion failed' + (data.length > 0 ? ':' : '')].concat(data);
+    note('error', 'assert', args, output);
+  };
+
+  window.console.clear = function() {
+    if (addon.logs) addon.logs.length = 0;
+    emit({ kind: 'clear', level: 'log', args: [] }, null, 'clear', []);
+  };
+})();
   `;
 };
 // DOM console wrapper removed — addon is iframe-first. Use `getConsoleWrapperScript`
 // for iframe-based console capture. If you need a DOM-based wrapper in future,
 // reintroduce it here with the same `restore()` / `getLogs()` API shape.
-
@@ -0,0 +1,132 @@
+/**
+ * Diagnostics - Formatting and delivery of transpiler diagnostics
+ *
+ * The transpiler reports problems as structured diagnostics (see
+ * `TranspileDiagnostic`). This module turns them into text for the Monaco
+ * output panel and forwards them to the component that owns the editor:
+ * - formatDiagnostic / formatDiagnostics: readable text with a source excerpt
+ * - dispatchDiagnostics: DOM event picked up by `<P5Code>`
+ */
+import type { TranspileDiagnostic } from '../types';
+
+/**
+ * DOM event carrying diagnostics from the code runner to `<P5Code>`
+ */
+export const DIAGNOSTICS_EVENT = 'p5-diagnostics';
+
+/**
+ * Source diagnostics refer to: the sketch, or each file of a multi-file
+ * sketch by name (matched against `TranspileDiagnostic.file`)
+ */
+export type DiagnosticSource = string | Record<string, string>;
+
+/**
+ * Payload of {@link DIAGNOSTICS_EVENT}
+ */
+export interface DiagnosticsEventDetail {
+  diagnostics: TranspileDiagnostic[];
+  sourceCode: DiagnosticSource;
+}
+
+const SYNTAX_RULES = ['syntax-error', 'unsupported-proposal'];
+
+/**
+ * Short label for a diagnostic, e.g. "Syntax error" or "Warning"
+ */
+export const diagnosticLabel = (diagnostic: TranspileDiagnostic): string => {
+  if (SYNTAX_RULES.includes(diagnostic.ruleId)) return 'Syntax error';
+  return diagnostic.severity.charAt(0).toUpperCase() + diagnostic.severity.slice(1);
+};
+
+/**
+ * Where a diagnostic points, e.g. "line 2, column 10" or
+ * "Particle.js line 2, column 10"
+ */
+export const diagnosticLocation = (diagnostic: TranspileDiagnostic): string => {
+  const { startLine, startColumn } = diagnostic.range;
+  const at = `line ${startLine}, column ${startColumn}`;
+  return diagnostic.file ? `${diagnostic.file} ${at}` : at;
+};
+
+const sourceOf = (diagnostic: TranspileDiagnostic, source: DiagnosticSource): string =>
+  typeof source === 'string' ? source : source[diagnostic.file ?? ''] ?? '';
+
+/**
+ * Quote the source line a diagnostic points at, with a caret underline
+ *
+ * @param diagnostic - Diagnostic to locate
+ * @param sourceCode - Sketch source the diagnostic refers to, or the files
+ *   of a multi-file sketch
+ * @returns Two-line excerpt, or empty string when the line does not exist
+ *
+ * @example
+ * diagnosticExcerpt(d, 'let a = 1;\nlet b = (;');
+ * // "  2 | let b = (;\n    |          ^"
+ */
+export const diagnosticExcerpt = (diagnostic: TranspileDiagnostic, sourceCode: DiagnosticSource): string => {
+  const { startLine, startColumn, endLine, endColumn } = diagnostic.range;
+  const sourceLine = sourceOf(diagnostic, sourceCode).split('\n')[startLine - 1];
+  if (sourceLine === undefined) return '';
+  const width = endLine === startLine ? Math.max(1, endColumn - startColumn) : 1;
+  const gutter = ' '.repeat(String(startLine).length);
+  return [
+    `  ${startLine} | ${sourceLine}`,
+    `  ${gutter} | ${' '.repeat(startColumn - 1)}${'^'.repeat(width)}`,
+  ].join('\n');
+};
+
+/**
+ * Format a diagnostic as text
+ *
+ * @param diagnostic - Diagnostic to format
+ * @param sourceCode - Sketch source, used for the excerpt
+ * @returns Heading with location and rule id, the excerpt and the hint
+ *
+ * @example
+ * formatDiagnostic(d, code);
+ * // Syntax error at line 2, column 10: Unexpected token [syntax-error]
+ * //   2 | let b = (;
+ * //     |          ^
+ */
+export const formatDiagnostic = (diagnostic: TranspileDiagnostic, sourceCode: DiagnosticSource): string => {
+  const lines = [
+    `${diagnosticLabel(diagnostic)} at ${diagnosticLocation(diagnostic)}: ${diagnostic.message} [${diagnostic.ruleId}]`,
+  ];
+  const excerpt = diagnosticExcerpt(diagnostic, sourceCode);
+  if (excerpt) lines.push(excerpt);
+  if (diagnostic.hint) lines.push(diagnostic.hint);
+  return lines.join('\n');
+};
+
+/**
+ * Format several diagnostics, errors first
+ *
+ * @param diagnostics - Diagnostics to format
+ * @param sourceCode - Sketch source, used for excerpts
+ * @returns Text with one block per diagnostic separated by blank lines
+ */
+export const formatDiagnostics = (diagnostics: TranspileDiagnostic[], sourceCode: DiagnosticSource): string => {
+  const order = { error: 0, warning: 1, info: 2 };
+  return [...diagnostics]
+    .sort((a, b) => order[a.severity] - order[b.severity])
+    .map((d) => formatDiagnostic(d, sourceCode))
+    .join('\n\n');
+};
+
+/**
+ * Send diagnostics to the `<P5Code>` wrapping an editor
+ *
+ * The event bubbles from `target`, so any element inside the component works.
+ * An empty list clears previously shown diagnostics.
+ *
+ * @param target - Element inside the `<P5Code>` (e.g. its editor container)
+ * @param detail - Diagnostics and the source they refer to
+ */
+export const dispatchDiagnostics = (target: Element | null, detail: DiagnosticsEventDetail): void => {
+  if (!target) return;
+  try {
+    target.dispatchEvent(new CustomEvent<DiagnosticsEventDetail>(DIAGNOSTICS_EVENT, { detail, bubbles: true }));
+  } catch (e) {
+    // CustomEvent may be unavailable outside the browser
+  }
+};
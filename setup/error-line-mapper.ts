@@ -8,9 +8,45 @@
  * - Wrapping in (function() { ... })()
  * - Console override injection
  * - p5 instance creation wrapper
+ * - astring regenerating the code with its own layout
  *
- * Solution: Track line offsets during transpilation and use to map stack traces
+ * Solution: Subtract the injected preamble lines, then follow the transpiler's
+ * source map back to the author's line and column. Without a source map,
+ * only the preamble offset is applied. Multi-file sketches additionally
+ * report positions as file and file line.
  */
+import { SourceMapConsumer } from 'source-map-js';
+import type { RawSourceMap } from 'source-map-js';
+import { locateInFiles } from './sketch-files';
+import type { SketchFileSpan } from './sketch-files';
+
+/**
+ * Optional inputs that make mapping exact
+ */
+export interface ErrorLineMapperOptions {
+  /** Source map from the transpiled code to the code the transpiler parsed */
+  sourceMap?: RawSourceMap | null;
+  /**
+   * URL of the injected script; only stack frames from this script are
+   * mapped. Defaults to any `blob:` URL.
+   */
+  scriptUrl?: string;
+  /**
+   * Line spans of a multi-file sketch (see `combineSketchFiles`); positions
+   * are then shown as `Particle.js:4:3` instead of `sketch:31:3`
+   */
+  files?: SketchFileSpan[];
+}
+
+/**
+ * A position in the author's source
+ */
+export interface SourcePosition {
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
 
 /**
  * Maps source code line numbers to transpiled code line numbers
@@ -20,6 +56,9 @@ export class ErrorLineMapper {
   private transpiledCode: string;
   private htmlOffset: number = 0;  // Lines added before user code in eval
   private sourceOffset: number = 0;  // Line offset in source
+  private consumer: SourceMapConsumer | null = null;
+  private scriptUrl?: string;
+  private files: SketchFileSpan[];
 
   /**
    * Create a new error line mapper
@@ -27,19 +66,113 @@ export class ErrorLineMapper {
    * @param sourceCode - The original source code (before transpilation)
    * @param transpiledCode - The transpiled code (after transformation)
    * @param injectedLinesCount - Number of lines injected before user code (console wrapper, etc.)
+   * @param options - Source map, script URL and file spans for exact positions
    *
    * @example
    * const mapper = new ErrorLineMapper(sourceCode, transpiledCode, 50);
    * const errorLine = mapper.mapErrorLine(42);  // Maps line 42 in transpiled to source
+   *
+   * @example
+   * const { code, map } = transpileSketch(sourceCode);
+   * const mapper = new ErrorLineMapper(sourceCode, code, preambleLines, { sourceMap: map });
+   * mapper.mapPosition(60, 14);  // { line: 9, column: 3 }
    */
   constructor(
     sourceCode: string,
     transpiledCode: string,
-    injectedLinesCount: number = 0
+    injectedLinesCount: number = 0,
+    options: ErrorLineMapperOptions = {}
   ) {
     this.sourceLines = sourceCode.split('\n');
     this.transpiledCode = transpiledCode;
     this.htmlOffset = injectedLinesCount;
+    this.scriptUrl = options.scriptUrl;
+    this.files = options.files ?? [];
+    if (options.sourceMap) {
+      try {
+        this.consumer = new SourceMapConsumer(options.sourceMap);
+      } catch (e) {
+        // Fall back to offset-only mapping on malformed maps
+        this.consumer = null;
+      }
+    }
+  }
+
+  /**
+   * Whether positions are resolved through a source map
+   */
+  get hasSourceMap(): boolean {
+    return this.consumer !== null;
+  }
+
+  /**
+   * Map a position in the executed script back to the author's source
+   *
+   * @param scriptLine - Line in the executed script (1-based, preamble included)
+   * @param scriptColumn - Column in the executed script (1-based, as in stack traces)
+   * @returns Source position, or null when the position lies in the preamble
+   *   or in generated code without a source location
+   *
+   * @example
+   * mapper.mapPosition(60, 14);  // { line: 9, column: 3 }
+   */
+  mapPosition(scriptLine: number, scriptColumn: number = 1): SourcePosition | null {
+    const line = scriptLine - this.htmlOffset;
+    if (line <= 0) return null;
+
+    let position: SourcePosition = { line, column: Math.max(1, scriptColumn) };
+    if (this.consumer) {
+      const query = { line, column: Math.max(0, scriptColumn - 1) };
+      let original = this.consumer.originalPositionFor({
+        ...query,
+        bias: SourceMapConsumer.GREATEST_LOWER_BOUND,
+      });
+      if (original.line == null) {
+        // Positions before the first mapped token (indentation) use the next one
+        original = this.consumer.originalPositionFor({
+          ...query,
+          bias: SourceMapConsumer.LEAST_UPPER_BOUND,
+        });
+      }
+      if (original.line == null) return null;
+      position = { line: original.line, column: original.column + 1 };
+    }
+
+    if (position.line > this.sourceLines.length) {
+      return { line: this.sourceLines.length, column: 1 };
+    }
+    return position;
+  }
+
+  /**
+   * Find the first stack frame belonging to the sketch and map it
+   *
+   * @param stack - Error stack trace
+   * @returns Source position of the innermost sketch frame, or null
+   *
+   * @example
+   * mapper.locateInStack('TypeError: x\n    at _p.draw (blob:http://localhost/1b2c:61:9)');
+   * // { line: 9, column: 3 }
+   */
+  locateInStack(stack: string): SourcePosition | null {
+    for (const frame of this.findStackFrames(stack)) {
+      const position = this.mapPosition(frame.line, frame.column);
+      if (position) return position;
+    }
+    return null;
+  }
+
+  private findStackFrames(stack: string): Array<{ text: string; line: number; column: number }> {
+    const frames: Array<{ text: string; line: number; column: number }> = [];
+    const pattern = /(blob:[^\s)]+?|[a-z][\w+.-]*:\/\/[^\s)]+?):(\d+):(\d+)/gi;
+    let match;
+    while ((match = pattern.exec(stack)) !== null) {
+      const url = match[1];
+      const ours = this.scriptUrl ? url === this.scriptUrl : url.startsWith('blob:');
+      if (!ours) continue;
+      frames.push({ text: match[0], line: parseInt(match[2], 10), column: parseInt(match[3], 10) });
+    }
+    return frames;
   }
 
   /**
@@ -56,6 +189,10 @@ export class ErrorLineMapper {
       return 1;  // Clamp to valid line
     }
 
+    if (this.consumer) {
+      return this.mapPosition(transpiledLine)?.line ?? 1;
+    }
+
     // Subtract injected lines to get back to source
     const adjustedLine = transpiledLine - this.htmlOffset;
 
@@ -113,6 +250,9 @@ export class ErrorLineMapper {
   /**
    * Map all line numbers in an error message
    *
+   * With a source map, only the positions of sketch stack frames are
+   * rewritten; without one, every line number is shifted by the preamble.
+   *
    * @param errorMessage - The error message or stack trace
    * @returns Error message with line numbers mapped to source
    *
@@ -122,6 +262,21 @@ export class ErrorLineMapper {
    * // Returns: 'SyntaxError: unexpected token (75:0)' (if 50 lines injected)
    */
   mapErrorMessage(errorMessage: string): string {
+    if (this.consumer) {
+      // Stack frames carry exact line:column pairs; rewrite those through the
+      // source map and leave frames from other scripts (p5 itself)
+      // untouched. Other text is left as is: messages such as the loop
+      // guard's ("Loop at line 5 ...") already name source lines.
+      let result = errorMessage;
+      for (const frame of this.findStackFrames(errorMessage)) {
+        const position = this.mapPosition(frame.line, frame.column);
+        if (position) {
+          result = result.replace(frame.text, this.formatFrame(position));
+        }
+      }
+      return result;
+    }
+
     const lineNumbers = this.extractLineNumbers(errorMessage);
 
     if (lineNumbers.length === 0) {
@@ -187,6 +342,13 @@ export class ErrorLineMapper {
    * // Returns formatted error with 3 lines before and after
    */
   formatErrorWithContext(errorMessage: string, contextLines: number = 2): string {
+    if (this.consumer) {
+      const position = this.locateInStack(errorMessage);
+      const mappedMessage = this.mapErrorMessage(errorMessage);
+      if (!position) return mappedMessage;
+      return `${mappedMessage}\n\n${this.formatSourceContext(position, contextLines)}`;
+    }
+
     const lineNumbers = this.extractLineNumbers(errorMessage);
 
     if (lineNumbers.length === 0) {
@@ -212,6 +374,56 @@ export class ErrorLineMapper {
     return `${mappedMessage}\n\n${context.join('\n')}`;
   }
 
+  /**
+   * Describe a source position for messages
+   *
+   * @param position - Source position
+   * @returns `line 9, column 3`, or `Particle.js line 4, column 3` in a
+   *   multi-file sketch
+   */
+  describePosition(position: SourcePosition): string {
+    const inFile = locateInFiles(this.files, position.line);
+    if (!inFile) return `line ${position.line}, column ${position.column}`;
+    return `${inFile.file} line ${inFile.line}, column ${position.column}`;
+  }
+
+  /**
+   * Stack-frame location for a source position: `sketch:9:3` or `Particle.js:4:3`
+   */
+  private formatFrame(position: SourcePosition): string {
+    const inFile = locateInFiles(this.files, position.line);
+    if (!inFile) return `sketch:${position.line}:${position.column}`;
+    return `${inFile.file}:${inFile.line}:${position.column}`;
+  }
+
+  /**
+   * Render source lines around a position, with a caret under the column
+   *
+   * In a multi-file sketch the excerpt stays within the position's file,
+   * uses its line numbers and is headed by the file name.
+   *
+   * @param position - Source position to highlight
+   * @param contextLines - Number of lines before/after to show (default: 2)
+   * @returns Excerpt such as `>   9 |   x += foo.bar;` followed by a caret line
+   */
+  formatSourceContext(position: SourcePosition, contextLines: number = 2): string {
+    const span = this.files.find((f) => position.line >= f.startLine && position.line < f.startLine + f.lineCount);
+    const firstLine = span ? span.startLine : 1;
+    const lastLine = span ? span.startLine + span.lineCount - 1 : this.sourceLines.length;
+    const startLine = Math.max(firstLine, position.line - contextLines);
+    const endLine = Math.min(lastLine, position.line + contextLines);
+    const context: string[] = span ? [`  ${span.name}`] : [];
+    for (let i = startLine; i <= endLine; i++) {
+      const marker = i === position.line ? '> ' : '  ';
+      const shownLine = i - firstLine + 1;
+      context.push(`${marker}${shownLine.toString().padStart(3, ' ')} | ${this.getSourceLine(i)}`);
+      if (i === position.line) {
+        context.push(`      | ${' '.repeat(position.column - 1)}^`);
+      }
+    }
+    return context.join('\n');
+  }
+
   /**
    * Calculate HTML offset from console wrapper code
    *
@@ -0,0 +1,106 @@
+/**
+ * Global Mode - Runs sketches as plain classic scripts, without transpiling
+ *
+ * With `mode="global"`, `<P5Canvas>` and `<P5Code>` skip the instance-mode
+ * transform. Each run loads a fresh iframe document (built by
+ * `buildP5IframeHtml()`) that ends with the author's code as a classic
+ * script, so p5 finds `setup()` / `draw()` on the window when the document
+ * loads and binds its globals natively.
+ *
+ * The document is replaced through `srcdoc` rather than rewritten with
+ * `document.open()`, which keeps the old window: only a new window lets the
+ * next run declare the same top-level `let` / `const` names again. A prelude
+ * script hands each new window to the slide (console sink, error listener)
+ * and installs the console bridge before the sketch runs.
+ *
+ * The loop guard and lint rules are part of the transpiler and do not apply.
+ */
+import type { TranspileResult } from "../types";
+import { getConsoleWrapperScript } from "./console-wrapper";
+import type { IframeHtmlOptions } from "./iframe-bootstrap";
+import { stripTypeAnnotations } from "./typescript-sketch";
+
+/**
+ * Attribute on a `<P5Code>` editor container carrying its `mode` prop
+ */
+export const MODE_ATTRIBUTE = "data-p5-mode";
+
+/**
+ * How a component runs its sketch: transpiled to instance mode (default),
+ * or as written in global mode
+ */
+export type ExecutionMode = "instance" | "global";
+
+/**
+ * Preview iframe that can run global-mode sketches
+ */
+export type GlobalModeIframe = HTMLIFrameElement & {
+  /** Builds the iframe document with extra options; set by the owning component */
+  __p5BuildHtml?: (options: Partial<IframeHtmlOptions>) => string;
+  /** Receives each new window before its sketch runs */
+  __p5GlobalModeWindow?: (win: Window) => void;
+};
+
+/**
+ * Script run in the new document right before the sketch
+ */
+export const getGlobalModePreludeScript = (): string => `
+(function() {
+  var hook = window.frameElement && window.frameElement.__p5GlobalModeWindow;
+  if (typeof hook === 'function') hook(window);
+})();
+${getConsoleWrapperScript()}`;
+
+/**
+ * Prepare a global-mode sketch: run as written, only TypeScript type syntax
+ * is stripped (keeping lines)
+ *
+ * @param code - Sketch source
+ * @param typescript - Whether the sketch is TypeScript
+ * @returns The code to run, in the shape of a transpile result; `code` is
+ *   null when type stripping failed
+ */
+export const prepareGlobalModeSketch = (code: string, typescript: boolean): TranspileResult => {
+  if (!typescript) return { code, map: null, mode: "global", diagnostics: [] };
+  const stripped = stripTypeAnnotations(code);
+  return { code: stripped.code, map: stripped.map, mode: "global", diagnostics: stripped.diagnostics };
+};
+
+/**
+ * Load a global-mode sketch into a fresh iframe document
+ *
+ * @param iframe - Preview iframe; its document is replaced
+ * @param code - The sketch, run as written
+ * @param buildHtml - Builds the iframe document; receives the options that
+ *   add the prelude and the sketch script
+ * @param onWindow - Called with the new window and the sketch's script URL
+ *   before the sketch runs; attach console sinks and error listeners here
+ * @returns Resolves once the document has loaded (and p5 has run `setup()`)
+ *
+ * @example
+ * await loadGlobalModeSketch(iframe, code, (sketch) => buildP5IframeHtml({ ...options, ...sketch }), (win, url) => {
+ *   attachSketchErrorListener(win, new ErrorLineMapper(code, code, 0, { scriptUrl: url }), report);
+ * });
+ */
+export const loadGlobalModeSketch = (
+  iframe: GlobalModeIframe,
+  code: string,
+  buildHtml: (sketch: Partial<IframeHtmlOptions>) => string,
+  onWindow: (win: Window, scriptUrl: string) => void
+): Promise<void> => {
+  const scriptUrl = URL.createObjectURL(new Blob([code], { type: "text/javascript" }));
+  iframe.__p5GlobalModeWindow = (win) => onWindow(win, scriptUrl);
+  return new Promise((resolve) => {
+    const onLoad = () => {
+      iframe.removeEventListener("load", onLoad);
+      try { URL.revokeObjectURL(scriptUrl); } catch (e) { void 0 }
+      resolve();
+    };
+    iframe.addEventListener("load", onLoad);
+    iframe.srcdoc = buildHtml({
+      includeOriginalConsole: true,
+      sketchPrelude: getGlobalModePreludeScript(),
+      sketchScriptUrl: scriptUrl,
+    });
+  });
+};
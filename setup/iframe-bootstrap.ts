@@ -1,3 +1,7 @@
+import { isRelativeSpecifier } from './sketch-imports'
+import type { SketchImportMap } from './sketch-imports'
+import { getShaderRuntimeScript } from './sketch-shaders'
+
 export type IframeTheme = 'light' | 'dark'
 
 type Color = { r: number; g: number; b: number; a: number }
@@ -145,6 +149,11 @@ export const computeIframeBackgroundTheme = (
   return { computedBg, theme }
 }
 
+/**
+ * JSON that can be inlined in a `<script>` element
+ */
+const toScriptJson = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c')
+
 export interface IframeHtmlOptions {
   computedBg: string
   theme: IframeTheme
@@ -155,6 +164,12 @@ export interface IframeHtmlOptions {
   includeBodyTextColor?: boolean
   readyMessageCount?: number
   requirePositiveCanvasSize?: boolean
+  /** Inline script run after the bootstrap, right before `sketchScriptUrl` */
+  sketchPrelude?: string
+  /** Classic script with the sketch itself, run before the document's `load` event (global mode) */
+  sketchScriptUrl?: string
+  /** Modules sketches may import (see `setup/sketch-imports.ts`); packages go into the document's import map */
+  importMap?: SketchImportMap
 }
 
 export const buildP5IframeHtml = (options: IframeHtmlOptions): string => {
@@ -168,10 +183,13 @@ export const buildP5IframeHtml = (options: IframeHtmlOptions): string => {
     includeBodyTextColor = false,
     readyMessageCount = 1,
     requirePositiveCanvasSize = false,
+    sketchPrelude,
+    sketchScriptUrl,
+    importMap = {},
   } = options
 
   const readyMessages = Array.from({ length: Math.max(1, readyMessageCount) })
-    .map(() => `window.parent.postMessage({ type: 'p5-iframe-ready', sketchInstanceId: window.__p5Addon.sketchInstanceId }, parentOrigin);`)
+    .map(() => `window.parent.postMessage({ type: 'p5-iframe-ready', sketchInstanceId: window.__p5Addon.sketchInstanceId, p5Loaded: typeof window.p5 !== 'undefined' }, parentOrigin);`)
     .join('\n        ')
   const resizeCondition = requirePositiveCanvasSize
     ? 'width > 10 && height > 10 && (width !== lastWidth || height !== lastHeight)'
@@ -184,14 +202,26 @@ export const buildP5IframeHtml = (options: IframeHtmlOptions): string => {
         window.__p5Addon.originalError = window.console.error.bind(console);
         window.__p5Addon.originalWarn = window.console.warn.bind(console);`
     : ''
+  const p5UrlScript = p5ScriptUrl ? `\n        window.__p5Addon.p5ScriptUrl = ${JSON.stringify(p5ScriptUrl)};` : ''
   const themeScript = includeThemeOnAddon ? `\n        window.__p5Addon.theme = '${theme}';` : ''
+  const sketchPreludeTag = sketchPrelude ? `\n      <script>${sketchPrelude}</script>` : ''
+  const sketchScriptTag = sketchScriptUrl ? `\n      <script src="${sketchScriptUrl}"></script>` : ''
+  // Deck files are imported by URL instead (see getSketchModuleHeader())
+  const packageImports = Object.fromEntries(Object.entries(importMap).filter(([specifier]) => !isRelativeSpecifier(specifier)))
+  // Must precede every module script of the document
+  const importMapTag = Object.keys(packageImports).length > 0
+    ? `\n      <script type="importmap">${toScriptJson({ imports: packageImports })}</script>`
+    : ''
+  const importMapScript = Object.keys(importMap).length > 0
+    ? `\n        window.__p5Addon.importMap = ${toScriptJson(importMap)};`
+    : ''
 
   return `
     <!DOCTYPE html>
     <html>
     <head>
       <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">${p5ScriptTag}
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">${importMapTag}${p5ScriptTag}
       <style>
         html, body {
           margin: 0;
@@ -217,8 +247,10 @@ export const buildP5IframeHtml = (options: IframeHtmlOptions): string => {
       <script>
         window.__p5Addon = {};
         window.__p5Addon.logs = [];${originalConsoleScript}
-        window.__p5Addon.sketchInstanceId = '${sketchInstanceId}';${themeScript}
+        window.__p5Addon.sketchInstanceId = '${sketchInstanceId}';${p5UrlScript}${themeScript}${importMapScript}${getShaderRuntimeScript()}
 
+        // Scoped, so global-mode sketches can declare any top-level name
+        (function() {
         let lastWidth = 0;
         let lastHeight = 0;
         const parentOrigin = (function(){
@@ -230,6 +262,7 @@ export const buildP5IframeHtml = (options: IframeHtmlOptions): string => {
           }
           return window.location.origin;
         })();
+        window.__p5Addon.parentOrigin = parentOrigin;
 
         const resizeIframe = () => {
           const canvas = document.querySelector('canvas');
@@ -254,7 +287,8 @@ export const buildP5IframeHtml = (options: IframeHtmlOptions): string => {
         observer.observe(document.body, { childList: true, subtree: true });
         setInterval(resizeIframe, 500);
         ${readyMessages}
-      </script>
+        })();
+      </script>${sketchPreludeTag}${sketchScriptTag}
     </body>
     </html>
   `
@@ -2,13 +2,14 @@
  * Iframe Message Handler - Manages parent-iframe communication
  *
  * Handles postMessage events from p5 sketches running in iframes:
- * - p5-iframe-ready: p5.js initialized
+ * - p5-iframe-ready: document ready, with whether p5.js loaded (`p5Loaded`)
  * - p5-resize: canvas dimensions changed
  * - p5-error: error occurred in sketch
  * - p5-execution-complete: code execution finished
  *
  * Validates message origins against an allowed list for security.
  */
+import type { IframeReadyData } from './iframe-readiness';
 
 /**
  * Configuration for iframe message handlers
@@ -26,7 +27,7 @@ interface ErrorData {
 }
 
 interface MessageHandlerConfig {
-  onReady?: () => void;
+  onReady?: (data: IframeReadyData) => void;
   onResize?: (width: number, height: number, sketchInstanceId?: string) => void;
   onError?: (error: ErrorData) => void;
   onExecutionComplete?: () => void;
@@ -116,7 +117,9 @@ export class IframeMessageHandler {
    */
   private registerHandlers(config: MessageHandlerConfig): void {
     if (config.onReady) {
-      this.handlers.set('p5-iframe-ready', config.onReady);
+      this.handlers.set('p5-iframe-ready', (data: unknown) => {
+        config.onReady!((data ?? {}) as IframeReadyData);
+      });
     }
 
     if (config.onExecutionComplete) {
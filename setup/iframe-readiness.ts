@@ -0,0 +1,134 @@
+/**
+ * Iframe Readiness - Handshake between a preview document and the runner
+ *
+ * A preview document loads p5 from a `<script>` in its head and then posts
+ * `p5-iframe-ready` with `p5Loaded` telling whether `window.p5` exists.
+ * `<P5Code>` keeps an {@link IframeReadiness} on its iframe, reset when it
+ * writes the document and settled by that message; a Run started before
+ * then waits for it (showing a loading note) instead of failing, and fails
+ * only when p5 did not load or the document never answers.
+ */
+
+/**
+ * How long a Run waits for the preview document by default
+ */
+export const READY_TIMEOUT_MS = 10_000;
+
+/**
+ * Payload of the `p5-iframe-ready` message
+ */
+export interface IframeReadyData {
+  sketchInstanceId?: string;
+  /** Whether `window.p5` exists once the document's scripts have run */
+  p5Loaded?: boolean;
+}
+
+export type ReadinessState = "loading" | "ready" | "failed";
+
+/**
+ * Outcome of waiting for a preview document
+ */
+export type ReadinessResult = { ok: true } | { ok: false; error: string };
+
+type ReadinessIframe = HTMLIFrameElement & { __p5Readiness?: IframeReadiness };
+
+/**
+ * Readiness of the document in one preview iframe
+ */
+export class IframeReadiness {
+  private current: ReadinessState = "loading";
+  private error = "";
+  private waiters: Array<(result: ReadinessResult) => void> = [];
+
+  /**
+   * @param p5ScriptUrl - URL p5 is loaded from, named when it fails to load
+   */
+  constructor(private p5ScriptUrl?: string) {}
+
+  get state(): ReadinessState {
+    return this.current;
+  }
+
+  /**
+   * Forget the previous document; call before writing a new one
+   *
+   * Runs already waiting keep waiting for the new document.
+   *
+   * @param p5ScriptUrl - URL the new document loads p5 from
+   */
+  reset(p5ScriptUrl: string | undefined = this.p5ScriptUrl): void {
+    this.p5ScriptUrl = p5ScriptUrl;
+    this.current = "loading";
+    this.error = "";
+  }
+
+  /**
+   * Settle the handshake from a `p5-iframe-ready` message
+   *
+   * @param data - The message payload
+   */
+  markReady(data: IframeReadyData | null | undefined): void {
+    if (data?.p5Loaded === false) {
+      this.current = "failed";
+      this.error = `Error: p5.js failed to load${this.p5ScriptUrl ? ` from ${this.p5ScriptUrl}` : ""}. Check the p5Version / p5CdnUrl of this sketch and your network connection, then reload the slide.`;
+    } else {
+      this.current = "ready";
+      this.error = "";
+    }
+    this.settle();
+  }
+
+  /**
+   * Wait until the document is ready
+   *
+   * @param timeoutMs - Time to wait while the document is loading
+   * @returns Resolves at once when settled, else on the next
+   *   {@link markReady} or when the timeout expires
+   */
+  whenReady(timeoutMs: number = READY_TIMEOUT_MS): Promise<ReadinessResult> {
+    if (this.current !== "loading") return Promise.resolve(this.result());
+    return new Promise((resolve) => {
+      const waiter = (result: ReadinessResult) => {
+        clearTimeout(timer);
+        resolve(result);
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        resolve({
+          ok: false,
+          error: `Error: The preview did not finish loading p5.js within ${Math.round(timeoutMs / 1000)} s. Check your network connection and run again.`,
+        });
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  private result(): ReadinessResult {
+    return this.current === "failed" ? { ok: false, error: this.error } : { ok: true };
+  }
+
+  private settle(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((waiter) => waiter(this.result()));
+  }
+}
+
+/**
+ * Readiness kept on a preview iframe, created on first use
+ *
+ * @param iframe - The preview iframe
+ */
+export const getIframeReadiness = (iframe: HTMLIFrameElement): IframeReadiness => {
+  const tracked = iframe as ReadinessIframe;
+  if (!tracked.__p5Readiness) tracked.__p5Readiness = new IframeReadiness();
+  return tracked.__p5Readiness;
+};
+
+/**
+ * Readiness of a preview iframe, if its component tracks one
+ *
+ * @param iframe - The preview iframe
+ */
+export const findIframeReadiness = (iframe: HTMLIFrameElement): IframeReadiness | null =>
+  (iframe as ReadinessIframe).__p5Readiness ?? null;
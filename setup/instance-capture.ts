@@ -0,0 +1,53 @@
+/**
+ * Instance Capture - Registers p5 instances created by instance-mode sketches
+ *
+ * Instance-mode sketches call `new p5(...)` themselves, so the addon cannot
+ * wrap them. Instead, while the sketch's top-level code runs, `window.p5` is
+ * swapped for a Proxy that:
+ * - records each constructed instance as `window.p5.instance` (and
+ *   `window.__p5Addon.instance`) for the stop button, cleanup and reruns,
+ * - mounts canvases in `#p5-container` when the sketch passes no parent node.
+ *
+ * The original constructor is restored afterwards, even if the sketch throws.
+ * The sketch runs inside its own function so reruns in the same iframe do not
+ * collide on top-level `let` / `const` declarations.
+ */
+
+/**
+ * Script placed before an instance-mode sketch
+ *
+ * Must be followed by the sketch code (starting at column 0) and then
+ * {@link getInstanceReleaseScript}.
+ *
+ * @example
+ * const script = `${getInstanceCaptureScript()}${code}${getInstanceReleaseScript()}`;
+ */
+export const getInstanceCaptureScript = (): string => {
+  return `
+const __p5Constructor = window.p5;
+window.p5 = new Proxy(__p5Constructor, {
+  construct(target, args) {
+    const p5Args = args.slice();
+    if (p5Args[1] == null) p5Args[1] = document.getElementById('p5-container');
+    const instance = Reflect.construct(target, p5Args);
+    target.instance = instance;
+    if (window.__p5Addon) window.__p5Addon.instance = instance;
+    return instance;
+  }
+});
+try {
+(function() {
+`;
+};
+
+/**
+ * Script placed after an instance-mode sketch; restores `window.p5`
+ */
+export const getInstanceReleaseScript = (): string => {
+  return `
+})();
+} finally {
+  window.p5 = __p5Constructor;
+}
+`;
+};
@@ -0,0 +1,252 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Loop Guard - Stops runaway loops and recursion instead of freezing the deck
+ *
+ * Sketches run on the slide's main thread, so a `while (true)` in `draw()`
+ * would hang the whole presentation. The transpiler (`loopGuard: true`)
+ * instruments the sketch:
+ * - every `for` / `for…in` / `for…of` / `while` / `do…while` body first calls
+ *   `__p5LoopGuard.loop(<line>)`,
+ * - every non-async, non-generator function counts its call depth with
+ *   `__p5LoopGuard.enter(<line>)` / `__p5LoopGuard.exit()`.
+ *
+ * The runtime from {@link getLoopGuardScript} shares one budget per frame
+ * (the synchronous run of `setup()`, one `draw()` or one event handler).
+ * When a loop exceeds it, or recursion gets too deep, the guard stops the
+ * sketch (`noLoop()`), posts a `p5-error` naming the original source line to
+ * the slide, and throws a `LoopGuardError`.
+ */
+import * as acorn from "acorn";
+import { generate } from "astring";
+import type { SketchFileSpan } from "./sketch-files";
+
+/**
+ * Budget of the loop guard
+ */
+export interface LoopGuardOptions {
+  /** Time all loops of one frame may take before they are stopped (ms) */
+  timeoutMs?: number;
+  /** Loop iterations allowed per frame; unlimited when unset */
+  maxIterations?: number;
+  /** Nested calls allowed before recursion is considered runaway */
+  maxCallDepth?: number;
+}
+
+/**
+ * Budget used for options that are not set
+ */
+export const DEFAULT_LOOP_GUARD = { timeoutMs: 1000, maxCallDepth: 2000 } as const;
+
+/**
+ * Global the instrumented code calls
+ */
+export const LOOP_GUARD_GLOBAL = "__p5LoopGuard";
+
+/**
+ * Attribute on a `<P5Code>` editor container carrying its `loopGuard` prop
+ * as JSON (`true` for the default budget, `false` when disabled)
+ */
+export const LOOP_GUARD_ATTRIBUTE = "data-p5-loop-guard";
+
+const LOOP_TYPES = ["ForStatement", "ForInStatement", "ForOfStatement", "WhileStatement", "DoWhileStatement"];
+const FUNCTION_TYPES = ["FunctionDeclaration", "FunctionExpression", "ArrowFunctionExpression"];
+
+/**
+ * `__p5LoopGuard.<method>(<line>);`
+ *
+ * The guard object carries `loc`, so a trip maps back to the loop or
+ * function through the transpiler's source map.
+ */
+const guardCall = (method: "loop" | "enter" | "exit", line?: number, loc?: any) => ({
+  type: "ExpressionStatement",
+  expression: {
+    type: "CallExpression",
+    optional: false,
+    callee: {
+      type: "MemberExpression",
+      computed: false,
+      optional: false,
+      object: { type: "Identifier", name: LOOP_GUARD_GLOBAL, loc },
+      property: { type: "Identifier", name: method },
+    },
+    arguments: line === undefined ? [] : [{ type: "Literal", value: line, raw: String(line) }],
+  },
+});
+
+const guardLoop = (loop: any): void => {
+  const check = guardCall("loop", loop.loc?.start.line ?? 1, loop.loc);
+  if (loop.body.type === "BlockStatement") {
+    loop.body.body.unshift(check);
+  } else {
+    loop.body = { type: "BlockStatement", body: [check, loop.body] };
+  }
+};
+
+const guardFunction = (fn: any): void => {
+  // Depth of suspended async functions and generators cannot be tracked
+  if (fn.async || fn.generator) return;
+  const statements: any[] = fn.body.type === "BlockStatement"
+    ? fn.body.body
+    : [{ type: "ReturnStatement", argument: fn.body }];
+  // Directives ("use strict") must stay first
+  let directives = 0;
+  while (statements[directives]?.directive) directives++;
+  fn.body = {
+    type: "BlockStatement",
+    body: [
+      ...statements.slice(0, directives),
+      guardCall("enter", fn.loc?.start.line ?? 1, fn.loc),
+      {
+        type: "TryStatement",
+        block: { type: "BlockStatement", body: statements.slice(directives) },
+        handler: null,
+        finalizer: { type: "BlockStatement", body: [guardCall("exit")] },
+      },
+    ],
+  };
+  fn.expression = false;
+};
+
+/**
+ * Instrument loops and functions of a parsed sketch with guard calls
+ *
+ * Mutates the AST; run it last, right before code generation. Line numbers
+ * in the guard calls are those of the parsed source.
+ *
+ * @param ast - Program parsed with `locations: true`
+ *
+ * @example
+ * instrumentLoopGuards(ast);
+ * generate(ast);
+ * // while (true) {
+ * //   __p5LoopGuard.loop(3);
+ * //   ...
+ */
+export const instrumentLoopGuards = (ast: any): void => {
+  const loops: any[] = [];
+  const functions: any[] = [];
+  const visit = (node: any): void => {
+    if (!node || typeof node.type !== "string") return;
+    if (LOOP_TYPES.includes(node.type)) loops.push(node);
+    if (FUNCTION_TYPES.includes(node.type)) functions.push(node);
+    for (const key of Object.keys(node)) {
+      if (key === "loc") continue;
+      const value = node[key];
+      if (Array.isArray(value)) value.forEach(visit);
+      else if (value && typeof value === "object") visit(value);
+    }
+  };
+  visit(ast);
+  loops.forEach(guardLoop);
+  functions.forEach(guardFunction);
+};
+
+/**
+ * Read the `loopGuard` setting of a component from its attribute
+ *
+ * @param value - Value of {@link LOOP_GUARD_ATTRIBUTE}, if present
+ * @returns The budget, or false when the guard is turned off
+ */
+export const parseLoopGuardAttribute = (value: string | null | undefined): LoopGuardOptions | false => {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed === false) return false;
+    return parsed && typeof parsed === "object" ? (parsed as LoopGuardOptions) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+/**
+ * Runtime of the loop guard, run in the sketch iframe before the sketch
+ *
+ * @param options - Budget; unset values use {@link DEFAULT_LOOP_GUARD}
+ * @param files - Line spans of a multi-file sketch, so messages name the
+ *   file (`Particle.js line 3`) instead of the joined program's line
+ * @returns Script defining `window.__p5LoopGuard`
+ *
+ * @example
+ * const script = `${getLoopGuardScript({ timeoutMs: 500 })}${transpiled}`;
+ */
+export const getLoopGuardScript = (options: LoopGuardOptions = {}, files: SketchFileSpan[] = []): string => {
+  const budget = {
+    timeoutMs: options.timeoutMs ?? DEFAULT_LOOP_GUARD.timeoutMs,
+    maxIterations: options.maxIterations ?? null,
+    maxCallDepth: options.maxCallDepth ?? DEFAULT_LOOP_GUARD.maxCallDepth,
+  };
+  return `
+(function() {
+  var budget = ${JSON.stringify(budget)};
+  var files = ${JSON.stringify(files)};
+  var inFrame = false, frameStart = 0, iterations = 0, depth = 0;
+  var describe = function(line) {
+    for (var i = 0; i < files.length; i++) {
+      var f = files[i];
+      if (line >= f.startLine && line < f.startLine + f.lineCount) return f.name + ' line ' + (line - f.startLine + 1);
+    }
+    return 'line ' + line;
+  };
+  // A frame is the synchronous run of setup, draw or an event handler;
+  // the budget resets once it returns to the event loop
+  var beginFrame = function() {
+    if (inFrame) return;
+    inFrame = true;
+    frameStart = Date.now();
+    iterations = 0;
+    Promise.resolve().then(function() { inFrame = false; });
+  };
+  var trip = function(message) {
+    try {
+      var instance = (window.__p5Addon && window.__p5Addon.instance) || (window.p5 && window.p5.instance);
+      if (instance && typeof instance.noLoop === 'function') instance.noLoop();
+    } catch (e) { /* keep reporting */ }
+    try {
+      var origin = (window.__p5Addon && window.__p5Addon.parentOrigin) || window.location.origin;
+      window.parent.postMessage({ type: 'p5-error', sketchInstanceId: window.__p5Addon && window.__p5Addon.sketchInstanceId, error: message }, origin);
+    } catch (e) { /* keep throwing */ }
+    var error = new Error(message);
+    error.name = 'LoopGuardError';
+    throw error;
+  };
+  window.${LOOP_GUARD_GLOBAL} = {
+    loop: function(line) {
+      beginFrame();
+      iterations++;
+      if (budget.maxIterations !== null && iterations > budget.maxIterations) {
+        trip('Loop at ' + describe(line) + ' ran more than ' + budget.maxIterations + ' iterations in one frame, so the sketch was stopped.');
+      }
+      if (iterations % 100 === 0 && Date.now() - frameStart > budget.timeoutMs) {
+        trip('Loop at ' + describe(line) + ' ran longer than ' + budget.timeoutMs + ' ms in one frame (infinite loop?), so the sketch was stopped.');
+      }
+    },
+    enter: function(line) {
+      beginFrame();
+      if (++depth > budget.maxCallDepth) {
+        depth--;
+        trip('Function at ' + describe(line) + ' nested more than ' + budget.maxCallDepth + ' calls deep (runaway recursion?), so the sketch was stopped.');
+      }
+    },
+    exit: function() {
+      depth--;
+    }
+  };
+})();
+`;
+};
+
+/**
+ * Instrument plain JavaScript (not a p5 sketch) with the loop guard
+ *
+ * @param code - Script source
+ * @returns Guarded code, or the code unchanged when it does not parse
+ */
+export const guardScript = (code: string): string => {
+  try {
+    const ast = acorn.parse(code, { ecmaVersion: "latest", allowAwaitOutsideFunction: true, locations: true });
+    instrumentLoopGuards(ast);
+    return generate(ast);
+  } catch (e) {
+    return code;
+  }
+};
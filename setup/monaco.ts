@@ -0,0 +1,12 @@
+import { defineMonacoSetup } from '@slidev/types'
+import { setMonacoEditorApi } from './sketch-files'
+
+export default defineMonacoSetup((monaco) => {
+  // Multi-file <P5Code> reads the other tabs' code from their editors
+  setMonacoEditorApi(monaco.editor)
+  // ```p5 fences are JavaScript to the editor; their language only selects the p5 runner
+  monaco.languages.register({ id: 'p5' })
+  monaco.editor.onDidCreateModel((model) => {
+    if (model.getLanguageId() === 'p5') monaco.editor.setModelLanguage(model, 'javascript')
+  })
+})
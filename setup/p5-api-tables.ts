@@ -0,0 +1,136 @@
+/**
+ * p5 API Tables - Function and constant names the transpiler rewrites to `_p.`
+ *
+ * The names are read from the p5 runtime actually loaded in the sketch iframe
+ * rather than from a hand-maintained list, so they follow:
+ * - the p5 version (or custom build) selected for the deck,
+ * - add-on libraries such as p5.sound that extend `p5.prototype`.
+ *
+ * Tables are cached per p5 script URL, so a sketch transpiled before its
+ * iframe has finished loading p5 still uses the tables of an earlier iframe
+ * with the same URL. The static list in `setup/p5-globals.ts` is only used
+ * when no runtime has been seen for that URL yet.
+ */
+import globals from "./p5-globals";
+
+/**
+ * Names of the p5 API available to global-mode sketches
+ */
+export interface P5ApiTables {
+  /** Methods, e.g. `createCanvas`, `circle`, `loadSound` */
+  functions: readonly string[];
+  /** Constants and sketch variables, e.g. `PI`, `width`, `mouseX` */
+  constants: readonly string[];
+}
+
+/**
+ * Tables generated from the DefinitelyTyped declarations, used when the
+ * runtime is not available
+ */
+export const FALLBACK_P5_API_TABLES: P5ApiTables = globals;
+
+/**
+ * Globals of browser windows, which are never p5 names even when p5 has a
+ * function of the same name (`print`)
+ *
+ * Listed explicitly because the transpiler also runs in a Web Worker, whose
+ * `globalThis` lacks them; JavaScript built-ins (`Math`, `JSON`) exist in
+ * both and are not repeated here.
+ */
+export const BROWSER_GLOBALS: ReadonlySet<string> = new Set([
+  "window", "self", "document", "navigator", "location", "history", "screen", "frames", "parent", "top",
+  "opener", "name", "status", "origin", "localStorage", "sessionStorage", "indexedDB",
+  "alert", "confirm", "prompt", "print", "open", "close", "stop", "focus", "blur", "find",
+  "scroll", "scrollTo", "scrollBy", "moveTo", "moveBy", "resizeTo", "resizeBy", "postMessage",
+  "getComputedStyle", "getSelection", "matchMedia", "requestAnimationFrame", "cancelAnimationFrame",
+  "Image", "Audio", "Option", "Text", "Node", "Element", "Event", "Range", "Selection", "Touch",
+]);
+
+const IDENTIFIER = /^[A-Za-z$][\w$]*$/;
+
+/** Sketch variables p5 1.x assigns in its constructor instead of on the prototype */
+const INSTANCE_VARIABLES = ["drawingContext"];
+
+/** Per-URL cache of tables read from a runtime */
+const tablesByUrl = new Map<string, P5ApiTables>();
+
+/** Per-constructor cache, so repeated runs in one iframe skip the prototype walk */
+const tablesByConstructor = new WeakMap<object, P5ApiTables>();
+
+/**
+ * Read the API tables from a p5 constructor
+ *
+ * Walks the whole `p5.prototype` chain: methods become functions, and data
+ * properties and accessors (`width` is a getter in p5 2.x) become constants.
+ * Private members (leading `_`) are skipped.
+ *
+ * @param p5Constructor - The `p5` global of a loaded runtime
+ * @returns The tables, or null when the value is not a p5 constructor
+ *
+ * @example
+ * const tables = collectP5ApiTables(iframe.contentWindow.p5);
+ * tables?.functions.includes('loadSound'); // true once p5.sound is loaded
+ */
+export const collectP5ApiTables = (p5Constructor: unknown): P5ApiTables | null => {
+  if (typeof p5Constructor !== "function") return null;
+  const functions = new Set<string>();
+  const constants = new Set<string>(INSTANCE_VARIABLES);
+  let proto: object | null = (p5Constructor as { prototype?: object }).prototype ?? null;
+  while (proto && proto !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      if (name === "constructor" || !IDENTIFIER.test(name)) continue;
+      if (functions.has(name) || constants.has(name)) continue;
+      const descriptor = Object.getOwnPropertyDescriptor(proto, name);
+      if (!descriptor) continue;
+      if (typeof descriptor.value === "function") {
+        functions.add(name);
+      } else {
+        constants.add(name);
+      }
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+  // A constructor without the core API is not p5 (or a broken build)
+  if (!functions.has("createCanvas")) return null;
+  return { functions: [...functions], constants: [...constants] };
+};
+
+/**
+ * Read (and cache) the API tables of the p5 runtime in a window
+ *
+ * @param targetWindow - Sketch iframe window, or null when unknown
+ * @param p5Url - Script URL p5 was loaded from; defaults to the URL the
+ *   iframe bootstrap recorded on `window.__p5Addon`
+ * @returns Runtime tables when p5 is loaded, the cached tables for the URL
+ *   while it is still loading, otherwise {@link FALLBACK_P5_API_TABLES}
+ *
+ * @example
+ * const apiTables = resolveP5ApiTables(iframe.contentWindow);
+ * const result = transpileSketch(code, { apiTables });
+ */
+export const resolveP5ApiTables = (
+  targetWindow: Window | null | undefined,
+  p5Url?: string
+): P5ApiTables => {
+  const url = p5Url ?? targetWindow?.__p5Addon?.p5ScriptUrl;
+  const p5Constructor = targetWindow?.p5;
+  if (typeof p5Constructor === "function") {
+    let tables = tablesByConstructor.get(p5Constructor) ?? null;
+    if (!tables) {
+      tables = collectP5ApiTables(p5Constructor);
+      if (tables) tablesByConstructor.set(p5Constructor, tables);
+    }
+    if (tables) {
+      if (url) tablesByUrl.set(url, tables);
+      return tables;
+    }
+  }
+  return (url && tablesByUrl.get(url)) || FALLBACK_P5_API_TABLES;
+};
+
+/**
+ * Forget all cached tables (tests and hot reload)
+ */
+export const clearP5ApiTablesCache = (): void => {
+  tablesByUrl.clear();
+};
@@ -3,6 +3,8 @@
 Source typefile from here: https://github.com/DefinitelyTyped/DefinitelyTyped/blob/master/types/p5/global.d.ts
 Used ts-morph to parse the type file and generate a list of all function names and constants.
 
+Fallback only: the transpiler normally uses names read from the loaded p5 runtime (see p5-api-tables.ts).
+
 */
 
 export default {
@@ -0,0 +1,348 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * p5 Lint - Warnings for common beginner mistakes in global-mode sketches
+ *
+ * Runs on the parsed sketch before the transpiler rewrites it and reports
+ * code that runs but does not do what the author meant:
+ * - `misspelled-lifecycle`: `Setup()` or `mousepressed()`, which p5 never calls
+ * - `duplicate-lifecycle`: `draw()` defined twice, so only the last one runs
+ * - `create-canvas-in-draw`: `createCanvas()` called every frame
+ * - `per-frame-resource`: `loadImage()`, `createGraphics()` & co. called every frame
+ * - `size-before-canvas`: `width` / `height` read before `createCanvas()`
+ * - `unknown-p5-name`: an undeclared name one edit away from a p5 name
+ *   ("did you mean `mouseX`?")
+ *
+ * Every rule is on by default and can be turned off individually.
+ */
+import * as walk from "acorn-walk";
+import type { TranspileDiagnostic } from "../types";
+import main from "./p5-main";
+import { BROWSER_GLOBALS } from "./p5-api-tables";
+import { analyzeScopes } from "./p5-scope";
+import { SHADERS_GLOBAL } from "./sketch-shaders";
+
+/**
+ * Rules of the lint pass
+ */
+export const P5_LINT_RULES = [
+  "misspelled-lifecycle",
+  "duplicate-lifecycle",
+  "create-canvas-in-draw",
+  "per-frame-resource",
+  "size-before-canvas",
+  "unknown-p5-name",
+] as const;
+
+export type P5LintRuleId = (typeof P5_LINT_RULES)[number];
+
+/**
+ * Rules to turn off (`false`); unlisted rules stay on
+ *
+ * @example
+ * { "size-before-canvas": false }
+ */
+export type P5LintRules = Partial<Record<P5LintRuleId, boolean>>;
+
+/**
+ * Attribute on a `<P5Code>` editor container carrying its `lint` prop as
+ * JSON (`true`, `false` or a {@link P5LintRules} object)
+ */
+export const LINT_ATTRIBUTE = "data-p5-lint";
+
+/**
+ * p5 names known to the transpiler, as sets
+ */
+export interface P5LintApi {
+  functions: ReadonlySet<string>;
+  constants: ReadonlySet<string>;
+}
+
+/** Calls that create a resource and should run once, not every frame */
+const PER_FRAME_RESOURCES = ["createGraphics", "createFramebuffer", "createCapture", "createVideo", "createAudio"];
+
+const SIZE_NAMES = ["width", "height"];
+
+/**
+ * Globals the addon defines in preview documents (`shaders`, one edit from `shader`)
+ */
+const ADDON_GLOBALS = new Set([SHADERS_GLOBAL]);
+
+const isFunctionNode = (node: any): boolean =>
+  !!node && (node.type === "ArrowFunctionExpression" || node.type === "FunctionExpression");
+
+/**
+ * Whether two names differ by at most one insertion, deletion or substitution
+ */
+const isOneEditApart = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+/**
+ * Closest candidate to a name: same letters in another case first, then one
+ * edit away
+ */
+const closestName = (name: string, candidates: Iterable<string>): string | null => {
+  const lower = name.toLowerCase();
+  let nearby: string | null = null;
+  for (const candidate of candidates) {
+    if (candidate === name) return null;
+    if (candidate.toLowerCase() === lower) return candidate;
+    if (!nearby && isOneEditApart(name, candidate)) nearby = candidate;
+  }
+  return nearby;
+};
+
+const lintWarning = (
+  ruleId: P5LintRuleId,
+  node: any,
+  message: string,
+  hint?: string
+): TranspileDiagnostic => {
+  const start = node.loc?.start ?? { line: 1, column: 0 };
+  const end = node.loc?.end ?? start;
+  return {
+    severity: "warning",
+    message,
+    range: {
+      startLine: start.line,
+      startColumn: start.column + 1,
+      endLine: end.line,
+      endColumn: end.column + 1,
+    },
+    ruleId,
+    ...(hint ? { hint } : {}),
+  };
+};
+
+/**
+ * Top-level function definitions by name, in source order
+ *
+ * @returns Name → `{ id, fn }` of every `function name() {}` and
+ *   `const name = () => {}`
+ */
+const topLevelFunctions = (ast: any): Map<string, Array<{ id: any; fn: any }>> => {
+  const functions = new Map<string, Array<{ id: any; fn: any }>>();
+  const add = (id: any, fn: any) => {
+    const list = functions.get(id.name) ?? [];
+    list.push({ id, fn });
+    functions.set(id.name, list);
+  };
+  for (const statement of ast.body) {
+    if (statement.type === "FunctionDeclaration" && statement.id) {
+      add(statement.id, statement);
+    } else if (statement.type === "VariableDeclaration") {
+      for (const { id, init } of statement.declarations) {
+        if (id.type === "Identifier" && isFunctionNode(init)) add(id, init);
+      }
+    }
+  }
+  return functions;
+};
+
+/**
+ * Identifiers read by top-level code, which runs before `setup()`
+ */
+const topLevelIdentifiers = (ast: any): Set<any> => {
+  const identifiers = new Set<any>();
+  walk.recursive(ast, null, {
+    Function() {
+      // Function bodies run later
+    },
+    Class() {
+      // So do methods and field initializers
+    },
+    Identifier(node: any) {
+      identifiers.add(node);
+    },
+  });
+  return identifiers;
+};
+
+/**
+ * Read the `lint` setting of a component from its attribute
+ *
+ * @param value - Value of {@link LINT_ATTRIBUTE}, if present
+ * @returns The rule settings, or false when linting is turned off
+ */
+export const parseLintAttribute = (value: string | null | undefined): P5LintRules | false => {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed === false) return false;
+    return parsed && typeof parsed === "object" ? (parsed as P5LintRules) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+/**
+ * Lint a global-mode sketch for common p5 mistakes
+ *
+ * Must run on the AST as parsed, before the transpiler or the migration pass
+ * rewrite it.
+ *
+ * @param ast - Program node parsed with `locations: true`; not modified
+ * @param api - p5 function and constant names (from the API tables)
+ * @param rules - Rules to turn off; every rule runs by default
+ * @returns Warnings in source order of the rules above
+ *
+ * @example
+ * const warnings = lintSketch(ast, api, { "unknown-p5-name": false });
+ * // [{ severity: "warning", ruleId: "create-canvas-in-draw", message: "createCanvas() is called in draw(), ...", ... }]
+ */
+export const lintSketch = (ast: any, api: P5LintApi, rules: P5LintRules = {}): TranspileDiagnostic[] => {
+  const enabled = (rule: P5LintRuleId) => rules[rule] !== false;
+  const diagnostics: TranspileDiagnostic[] = [];
+  const { references } = analyzeScopes(ast);
+  const functions = topLevelFunctions(ast);
+  const referencedNames = new Set<string>();
+  const unresolved = new Set<any>();
+  references.forEach((binding, node) => {
+    if (binding) referencedNames.add(binding.name);
+    else unresolved.add(node);
+  });
+  // Unresolved calls by callee name, within a function body
+  const unresolvedCalls = (fn: any, names: (name: string) => boolean): any[] => {
+    const calls: any[] = [];
+    walk.simple(fn.body, {
+      CallExpression(node: any) {
+        if (node.callee.type === "Identifier" && unresolved.has(node.callee) && names(node.callee.name)) {
+          calls.push(node);
+        }
+      },
+    });
+    return calls;
+  };
+
+  if (enabled("misspelled-lifecycle")) {
+    functions.forEach((definitions, name) => {
+      if (main.functions.includes(name) || referencedNames.has(name)) return;
+      const lifecycle = closestName(name, main.functions);
+      if (!lifecycle) return;
+      diagnostics.push(lintWarning(
+        "misspelled-lifecycle",
+        definitions[0].id,
+        `${name}() is never called by p5. Did you mean ${lifecycle}()?`,
+        `p5 only calls functions with these exact names (case matters): rename it to ${lifecycle}.`
+      ));
+    });
+  }
+
+  if (enabled("duplicate-lifecycle")) {
+    for (const name of main.functions) {
+      const definitions = functions.get(name) ?? [];
+      const last = definitions[definitions.length - 1];
+      for (const { id } of definitions.slice(0, -1)) {
+        diagnostics.push(lintWarning(
+          "duplicate-lifecycle",
+          id,
+          `${name}() is defined again on line ${last.id.loc?.start.line}, which replaces this definition, so it never runs.`,
+          `Merge the code into a single ${name}() function.`
+        ));
+      }
+    }
+  }
+
+  const drawDefinitions = functions.get("draw") ?? [];
+  const draw = drawDefinitions[drawDefinitions.length - 1]?.fn;
+  if (draw && enabled("create-canvas-in-draw")) {
+    for (const call of unresolvedCalls(draw, (name) => name === "createCanvas")) {
+      diagnostics.push(lintWarning(
+        "create-canvas-in-draw",
+        call.callee,
+        "createCanvas() is called in draw(), so the canvas is recreated every frame.",
+        "Call createCanvas() once in setup()."
+      ));
+    }
+  }
+  if (draw && enabled("per-frame-resource")) {
+    const isResource = (name: string) =>
+      (/^load[A-Z]/.test(name) && api.functions.has(name)) || PER_FRAME_RESOURCES.includes(name);
+    for (const call of unresolvedCalls(draw, isResource)) {
+      const name = call.callee.name;
+      diagnostics.push(lintWarning(
+        "per-frame-resource",
+        call.callee,
+        name.startsWith("load")
+          ? `${name}() is called in draw(), so the file is loaded again every frame.`
+          : `${name}() is called in draw(), so a new one is created every frame.`,
+        `Call ${name}() once in setup()${name.startsWith("load") ? " (or preload())" : ""} and keep the result in a variable.`
+      ));
+    }
+  }
+
+  if (enabled("size-before-canvas")) {
+    const early = new Set<any>();
+    for (const node of topLevelIdentifiers(ast)) {
+      if (unresolved.has(node) && SIZE_NAMES.includes(node.name)) early.add(node);
+    }
+    const setupDefinitions = functions.get("setup") ?? [];
+    const setup = setupDefinitions[setupDefinitions.length - 1]?.fn;
+    const [createCanvas] = setup ? unresolvedCalls(setup, (name) => name === "createCanvas") : [];
+    if (createCanvas) {
+      // Includes createCanvas(width, height) itself
+      walk.simple(setup.body, {
+        Identifier(node: any) {
+          if (unresolved.has(node) && SIZE_NAMES.includes(node.name) && node.start < createCanvas.end) early.add(node);
+        },
+      });
+    }
+    for (const node of [...early].sort((a, b) => a.start - b.start)) {
+      diagnostics.push(lintWarning(
+        "size-before-canvas",
+        node,
+        `${node.name} is read before createCanvas() sets the canvas size, so it is not the size of your canvas.`,
+        `Use ${node.name} in setup() after createCanvas(), or in draw().`
+      ));
+    }
+  }
+
+  if (enabled("unknown-p5-name")) {
+    // Names assigned without a declaration become globals of their own
+    const assigned = new Set<string>();
+    walk.simple(ast, {
+      AssignmentExpression(node: any) {
+        if (node.left.type === "Identifier") assigned.add(node.left.name);
+      },
+    });
+    const reported = new Set<string>();
+    for (const node of unresolved) {
+      const name: string = node.name;
+      if (name.length < 4 || reported.has(name) || assigned.has(name)) continue;
+      if (api.functions.has(name) || api.constants.has(name)) continue;
+      // Browser globals close to a p5 name (`Image` / `image`, `Text` / `text`) are not typos
+      if (name in globalThis || BROWSER_GLOBALS.has(name) || ADDON_GLOBALS.has(name)) continue;
+      const suggestion = closestName(name, api.functions) ?? closestName(name, api.constants);
+      if (!suggestion) continue;
+      reported.add(name);
+      diagnostics.push(lintWarning(
+        "unknown-p5-name",
+        node,
+        `${name} is not defined. Did you mean ${suggestion}?`,
+        suggestion.toLowerCase() === name.toLowerCase()
+          ? `p5 names are case-sensitive: write ${suggestion}.`
+          : `Check the spelling, or declare ${name} if it is your own variable.`
+      ));
+    }
+  }
+
+  return diagnostics;
+};
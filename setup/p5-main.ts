@@ -1,5 +1,34 @@
 // https://gist.github.com/tangert/cd4ce84e0e7a4d240694d0e0536db27d
 
+/**
+ * Sketch callbacks p5 invokes on the instance
+ *
+ * Top-level functions with these names become `_p.<name>` assignments. Any
+ * other user function keeps its own (prefixed) name, even when it matches a
+ * p5 API such as `circle` or `remove`.
+ */
 export default {
-  functions: ["preload", "setup", "draw", "remove"],
+  functions: [
+    "preload",
+    "setup",
+    "draw",
+    // Window and input events
+    "windowResized",
+    "mousePressed",
+    "mouseReleased",
+    "mouseClicked",
+    "mouseMoved",
+    "mouseDragged",
+    "doubleClicked",
+    "mouseWheel",
+    "keyPressed",
+    "keyReleased",
+    "keyTyped",
+    "touchStarted",
+    "touchMoved",
+    "touchEnded",
+    "deviceMoved",
+    "deviceTurned",
+    "deviceShaken",
+  ],
 };
@@ -0,0 +1,353 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * p5 Migration - Adapts sketches to the major p5.js version they run on
+ *
+ * Decks mix sketches written for p5 1.x and 2.x, while the version loaded in
+ * the iframe is chosen per deck or component. Given the target version (from
+ * `getP5LoadUrl`), this pass:
+ * - on 2.x, rewrites `preload()` into the start of an async `setup()` with
+ *   every `load*()` call awaited,
+ * - warns about APIs removed or renamed in 2.x, and about 1.x idioms such as
+ *   callback-style loading and `mouseButton === LEFT`,
+ * - on 1.x, warns about APIs added after the target version (2.x-only ones,
+ *   and later 1.x additions such as `buildGeometry()`) and about async
+ *   setups that 1.x does not wait for.
+ *
+ * Only unresolved names are considered, so sketch code that defines its own
+ * `curve()` or `split()` is left alone.
+ */
+import * as walk from "acorn-walk";
+import type { TranspileDiagnostic } from "../types";
+import { analyzeScopes } from "./p5-scope";
+import { collectTopLevelAwaitStatements, ensureSetupBlock, findSetupFunction, prependToSetup } from "./p5-setup-deferral";
+
+const NATIVE_ARRAY = "Use the native Array method instead.";
+const NATIVE_STRING = "Use the native String method instead.";
+const NO_EQUIVALENT = "p5.js 1.x has no equivalent.";
+const NO_EQUIVALENT_BEFORE = "Older p5.js versions have no equivalent.";
+
+/**
+ * p5 1.x APIs that p5 2.x removed or renamed, with the replacement
+ */
+const REMOVED_IN_2: Record<string, string> = {
+  curve: "Use spline() instead.",
+  curveVertex: "Use splineVertex() instead.",
+  curvePoint: "Use splinePoint() instead.",
+  curveTangent: "Use splineTangent() instead.",
+  curveTightness: "Use splineProperty('tightness', value) instead.",
+  bezierDetail: "Use curveDetail() instead.",
+  quadraticVertex: "Call bezierOrder(2) and use bezierVertex() instead.",
+  pushStyle: "Use push() instead.",
+  popStyle: "Use pop() instead.",
+  pushMatrix: "Use push() instead.",
+  popMatrix: "Use pop() instead.",
+  isKeyPressed: "Use keyIsPressed instead.",
+  createStringDict: "Use a plain object or a Map instead.",
+  createNumberDict: "Use a plain object or a Map instead.",
+  saveJSONObject: "Use saveJSON() instead.",
+  saveJSONArray: "Use saveJSON() instead.",
+  registerPreloadMethod: "Libraries now register with p5.registerAddon().",
+  append: NATIVE_ARRAY,
+  arrayCopy: NATIVE_ARRAY,
+  concat: NATIVE_ARRAY,
+  reverse: NATIVE_ARRAY,
+  shorten: NATIVE_ARRAY,
+  sort: NATIVE_ARRAY,
+  splice: NATIVE_ARRAY,
+  subset: NATIVE_ARRAY,
+  join: NATIVE_STRING,
+  match: NATIVE_STRING,
+  matchAll: NATIVE_STRING,
+  split: NATIVE_STRING,
+  trim: NATIVE_STRING,
+};
+
+/**
+ * p5 APIs missing from older releases: the version that introduced each,
+ * and the closest equivalent before it
+ */
+const ADDED_APIS: Record<string, { since: string; hint: string }> = {
+  spline: { since: "2.0.0", hint: "Use curve() instead." },
+  splineVertex: { since: "2.0.0", hint: "Use curveVertex() instead." },
+  splinePoint: { since: "2.0.0", hint: "Use curvePoint() instead." },
+  splineTangent: { since: "2.0.0", hint: "Use curveTangent() instead." },
+  splineProperty: { since: "2.0.0", hint: "Use curveTightness() instead." },
+  splineProperties: { since: "2.0.0", hint: "Use curveTightness() instead." },
+  bezierOrder: { since: "2.0.0", hint: "Use quadraticVertex() for quadratic curves." },
+  loadBlob: { since: "2.0.0", hint: "Use loadBytes() instead." },
+  textWeight: { since: "2.0.0", hint: "Load a font file with the desired weight instead." },
+  textProperty: { since: "2.0.0", hint: "Use textAlign(), textSize() and textStyle() instead." },
+  textProperties: { since: "2.0.0", hint: "Use textAlign(), textSize() and textStyle() instead." },
+  fontWidth: { since: "2.0.0", hint: "Use textWidth() instead." },
+  fontBounds: { since: "2.0.0", hint: "Use font.textBounds() instead." },
+  textBounds: { since: "2.0.0", hint: "Use font.textBounds() instead." },
+  worldToScreen: { since: "2.0.0", hint: NO_EQUIVALENT },
+  screenToWorld: { since: "2.0.0", hint: NO_EQUIVALENT },
+  strokeMode: { since: "2.0.0", hint: NO_EQUIVALENT },
+  loadFilterShader: { since: "2.0.0", hint: NO_EQUIVALENT },
+  baseFilterShader: { since: "2.0.0", hint: NO_EQUIVALENT },
+  beginClip: { since: "1.8.0", hint: "Use drawingContext.clip() instead." },
+  endClip: { since: "1.8.0", hint: "Use drawingContext.clip() instead." },
+  clip: { since: "1.8.0", hint: "Use drawingContext.clip() instead." },
+  buildGeometry: { since: "1.8.0", hint: "Build a p5.Geometry manually instead." },
+  createFilterShader: { since: "1.8.0", hint: NO_EQUIVALENT_BEFORE },
+  imageLight: { since: "1.9.0", hint: NO_EQUIVALENT_BEFORE },
+  panorama: { since: "1.9.1", hint: NO_EQUIVALENT_BEFORE },
+  metalness: { since: "1.9.1", hint: NO_EQUIVALENT_BEFORE },
+  linePerspective: { since: "1.9.2", hint: NO_EQUIVALENT_BEFORE },
+  paletteLerp: { since: "1.11.0", hint: "Use lerpColor() instead." },
+  baseMaterialShader: { since: "1.11.0", hint: NO_EQUIVALENT_BEFORE },
+  baseNormalShader: { since: "1.11.0", hint: NO_EQUIVALENT_BEFORE },
+  baseColorShader: { since: "1.11.0", hint: NO_EQUIVALENT_BEFORE },
+  baseStrokeShader: { since: "1.11.0", hint: NO_EQUIVALENT_BEFORE },
+};
+
+const MOUSE_BUTTONS = ["LEFT", "RIGHT", "CENTER"];
+
+const isLoadFunctionName = (name: string): boolean => /^load[A-Z]/.test(name);
+
+const isFunctionNode = (node: any): boolean =>
+  !!node && (node.type === "ArrowFunctionExpression" || node.type === "FunctionExpression");
+
+/**
+ * Major version of a p5 version string (`"2.2.0"` -> 2)
+ */
+export const getP5MajorVersion = (version?: string): number | null => {
+  const major = Number.parseInt(version ?? "", 10);
+  return Number.isNaN(major) ? null : major;
+};
+
+/**
+ * Compare two p5 version strings numerically (`"1.9.4"` < `"1.11.0"`)
+ *
+ * @returns Negative, zero or positive, like a sort comparator
+ */
+const compareP5Versions = (a: string, b: string): number => {
+  const left = a.split(".").map((part) => Number.parseInt(part, 10) || 0);
+  const right = b.split(".").map((part) => Number.parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const warning = (node: any, message: string, hint?: string): TranspileDiagnostic => {
+  const start = node.loc?.start ?? { line: 1, column: 0 };
+  const end = node.loc?.end ?? start;
+  return {
+    severity: "warning",
+    message,
+    range: {
+      startLine: start.line,
+      startColumn: start.column + 1,
+      endLine: end.line,
+      endColumn: end.column + 1,
+    },
+    ruleId: "p5-version-migration",
+    ...(hint ? { hint } : {}),
+  };
+};
+
+/**
+ * Find the top-level definition of `preload`
+ *
+ * @returns The statement declaring it and its function node, or null
+ */
+const findPreload = (ast: any): { statement: any; fn: any } | null => {
+  for (const statement of ast.body) {
+    if (statement.type === "FunctionDeclaration" && statement.id?.name === "preload") {
+      return { statement, fn: statement };
+    }
+    if (statement.type === "VariableDeclaration" && statement.declarations.length === 1) {
+      const { id, init } = statement.declarations[0];
+      if (id.type === "Identifier" && id.name === "preload" && isFunctionNode(init)) {
+        return { statement, fn: init };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Await every unresolved `load*()` call made directly in a function body
+ *
+ * Calls inside nested functions (callbacks) and calls that are already
+ * awaited are left alone.
+ */
+const awaitLoadCalls = (body: any, unresolved: Set<any>): void => {
+  const awaited = new Set<any>();
+  const calls: any[] = [];
+  walk.recursive(body, null, {
+    Function() {
+      // Nested functions run later (or not at all); their loads stay as is
+    },
+    AwaitExpression(node: any, st: null, c: any) {
+      awaited.add(node.argument);
+      c(node.argument, st);
+    },
+    CallExpression(node: any, st: null, c: any) {
+      const { callee } = node;
+      if (callee.type === "Identifier" && unresolved.has(callee) && isLoadFunctionName(callee.name)) {
+        calls.push(node);
+      }
+      walk.base.CallExpression(node, st, c);
+    },
+  });
+  for (const call of calls) {
+    if (awaited.has(call)) continue;
+    // Turn the call node itself into `await <call>` so parents keep their reference
+    const inner = { ...call };
+    for (const key of Object.keys(call)) delete call[key];
+    Object.assign(call, {
+      type: "AwaitExpression",
+      argument: inner,
+      start: inner.start,
+      end: inner.end,
+      loc: inner.loc,
+    });
+  }
+};
+
+/**
+ * Move `preload()` into the start of an async `setup()`
+ *
+ * The body runs as an awaited async function named `preload`, so its locals,
+ * `return` statements and stack frames behave as before; `setup()` becomes
+ * async (p5 2.x waits for it before the first `draw()`).
+ */
+const movePreloadToSetup = (ast: any, preload: { statement: any; fn: any }, unresolved: Set<any>): void => {
+  const { statement, fn } = preload;
+  const body =
+    fn.body.type === "BlockStatement"
+      ? fn.body
+      : { type: "BlockStatement", body: [{ type: "ExpressionStatement", expression: fn.body }], loc: fn.body.loc };
+  awaitLoadCalls(body, unresolved);
+  ast.body = ast.body.filter((s: any) => s !== statement);
+
+  const setup = ensureSetupBlock(ast);
+  setup.async = true;
+  prependToSetup(setup, {
+    type: "ExpressionStatement",
+    expression: {
+      type: "AwaitExpression",
+      argument: {
+        type: "CallExpression",
+        callee: {
+          type: "FunctionExpression",
+          id: { type: "Identifier", name: "preload", loc: statement.loc },
+          params: [],
+          body,
+          async: true,
+          generator: false,
+          expression: false,
+        },
+        arguments: [],
+        optional: false,
+      },
+    },
+    loc: statement.loc,
+  });
+};
+
+/**
+ * Adapt a sketch to the major p5 version it will run on
+ *
+ * Must run before scope analysis of the transpiler, as it may restructure
+ * the program (moving `preload()` into `setup()`).
+ *
+ * @param ast - Program node (parsed with locations), modified in place
+ * @param targetVersion - p5 version the sketch runs on, e.g. `"2.2.0"`
+ * @returns Warnings about version-specific APIs and applied rewrites
+ *
+ * @example
+ * const ast = acorn.parse(code, { ecmaVersion: "latest", locations: true });
+ * const warnings = migrateSketch(ast, getP5VersionFromUrl(getP5LoadUrl()));
+ */
+export const migrateSketch = (ast: any, targetVersion?: string): TranspileDiagnostic[] => {
+  const major = getP5MajorVersion(targetVersion);
+  if (major !== 1 && major !== 2) return [];
+
+  const diagnostics: TranspileDiagnostic[] = [];
+  const { references } = analyzeScopes(ast);
+  const unresolved = new Set<any>();
+  references.forEach((binding, node) => {
+    if (binding === null) unresolved.add(node);
+  });
+  const isApi = (node: any, names: string[]) =>
+    node?.type === "Identifier" && unresolved.has(node) && names.includes(node.name);
+
+  const reported = new Set<string>();
+  unresolved.forEach((node) => {
+    const name: string = node.name;
+    if (reported.has(name)) return;
+    if (major === 2 && Object.prototype.hasOwnProperty.call(REMOVED_IN_2, name)) {
+      reported.add(name);
+      diagnostics.push(warning(node, `"${name}" was removed from p5.js 2.x, which this sketch runs on.`, REMOVED_IN_2[name]));
+      return;
+    }
+    const added = Object.prototype.hasOwnProperty.call(ADDED_APIS, name) ? ADDED_APIS[name] : null;
+    if (!added || compareP5Versions(targetVersion ?? "", added.since) >= 0) return;
+    reported.add(name);
+    const message = getP5MajorVersion(added.since) === 2
+      ? `"${name}" is only available in p5.js 2.x; this sketch runs on p5.js ${targetVersion}.`
+      : `"${name}" was added in p5.js ${added.since}; this sketch runs on p5.js ${targetVersion}.`;
+    diagnostics.push(warning(node, message, added.hint));
+  });
+
+  if (major === 2) {
+    walk.simple(ast, {
+      CallExpression(node: any) {
+        const { callee } = node;
+        if (callee.type !== "Identifier" || !unresolved.has(callee) || !isLoadFunctionName(callee.name)) return;
+        if (!node.arguments.slice(1).some(isFunctionNode)) return;
+        diagnostics.push(
+          warning(
+            node,
+            `${callee.name}() returns a Promise in p5.js 2.x; callbacks are no longer the preferred way to wait for it.`,
+            `Write "const result = await ${callee.name}(...)" inside an async setup().`
+          )
+        );
+      },
+      BinaryExpression(node: any) {
+        if (!["==", "===", "!=", "!=="].includes(node.operator)) return;
+        const pair = [node.left, node.right];
+        const button = pair.find((side) => isApi(side, MOUSE_BUTTONS));
+        if (!button || !pair.some((side) => isApi(side, ["mouseButton"]))) return;
+        diagnostics.push(
+          warning(
+            node,
+            `mouseButton is an object in p5.js 2.x, so comparing it with ${button.name} is always ${node.operator.startsWith("!") ? "true" : "false"}.`,
+            `Use mouseButton.${button.name.toLowerCase()} instead.`
+          )
+        );
+      },
+    });
+
+    const preload = findPreload(ast);
+    if (preload) {
+      diagnostics.push(
+        warning(
+          preload.statement.id ?? preload.statement.declarations[0].id,
+          "preload() is not called by p5.js 2.x; its body now runs at the start of an async setup() with each load*() call awaited.",
+          "Move the loads into \"async function setup()\" and await them to make this explicit."
+        )
+      );
+      movePreloadToSetup(ast, preload, unresolved);
+    }
+  } else {
+    const setup = findSetupFunction(ast);
+    const [firstAwait] = collectTopLevelAwaitStatements(ast);
+    if (setup?.async || firstAwait) {
+      diagnostics.push(
+        warning(
+          setup?.async ? setup : firstAwait,
+          `p5.js ${targetVersion} does not wait for an async setup() or top-level await; draw() may run before loading finishes.`,
+          "Load files in preload() without await, or switch the sketch to p5.js 2.x."
+        )
+      );
+    }
+  }
+
+  return diagnostics;
+};
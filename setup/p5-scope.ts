@@ -0,0 +1,283 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Scope Analysis - Lexical scopes for sketch ASTs
+ *
+ * Builds the scope tree of a parsed sketch and resolves every identifier to
+ * the binding that declares it. The transpiler uses this to:
+ * - prefix only genuine top-level bindings,
+ * - leave function locals, parameters and shadowing declarations untouched,
+ * - tell user bindings apart from unresolved (global / p5) names.
+ *
+ * Traversal reuses acorn-walk's base walker, which already separates binding
+ * positions ("VariablePattern") from expression positions and never visits
+ * non-computed property keys, member properties or labels.
+ */
+import * as walk from "acorn-walk";
+
+export type ScopeKind = "program" | "function" | "block";
+
+export type BindingKind = "var" | "let" | "const" | "function" | "class" | "param" | "catch";
+
+/**
+ * A single declared name
+ */
+export interface Binding {
+  name: string;
+  kind: BindingKind;
+  scope: Scope;
+  /** Identifier node of the first declaration */
+  node: any;
+}
+
+/**
+ * A lexical scope: program, function body or block
+ */
+export class Scope {
+  readonly bindings = new Map<string, Binding>();
+
+  constructor(
+    readonly kind: ScopeKind,
+    readonly parent: Scope | null
+  ) {}
+
+  /**
+   * Declare a name in this scope
+   *
+   * Redeclarations (`var x` twice, a function later assigned with `var`)
+   * reuse the first binding.
+   */
+  declare(name: string, kind: BindingKind, node: any): Binding {
+    const existing = this.bindings.get(name);
+    if (existing) return existing;
+    const binding: Binding = { name, kind, scope: this, node };
+    this.bindings.set(name, binding);
+    return binding;
+  }
+
+  /**
+   * Resolve a name through this scope and its parents
+   *
+   * @returns The declaring binding, or null for unresolved (global) names
+   */
+  lookup(name: string): Binding | null {
+    const binding = this.bindings.get(name);
+    if (binding) return binding;
+    return this.parent ? this.parent.lookup(name) : null;
+  }
+
+  /**
+   * Nearest function or program scope, where `var` declarations hoist
+   */
+  hoistTarget(): Scope {
+    return this.kind === "block" && this.parent ? this.parent.hoistTarget() : this;
+  }
+}
+
+/**
+ * Result of analyzing a program
+ */
+export interface ScopeAnalysis {
+  /** The top-level scope */
+  program: Scope;
+  /** Declaring identifier nodes → their binding */
+  declarations: Map<any, Binding>;
+  /** Referencing identifier nodes → their binding (null when unresolved) */
+  references: Map<any, Binding | null>;
+}
+
+/**
+ * Collect the identifier nodes bound by a declaration target
+ *
+ * Handles plain identifiers and every destructuring form:
+ * `{ a, b: c, ...rest }`, `[x, , y = 1, ...tail]` and nested combinations.
+ *
+ * @param pattern - Declarator id, parameter or catch param
+ * @returns Identifier nodes in source order
+ */
+export const collectPatternIdentifiers = (pattern: any, out: any[] = []): any[] => {
+  if (!pattern) return out;
+  switch (pattern.type) {
+    case "Identifier":
+      out.push(pattern);
+      break;
+    case "ObjectPattern":
+      for (const prop of pattern.properties) {
+        collectPatternIdentifiers(prop.type === "RestElement" ? prop.argument : prop.value, out);
+      }
+      break;
+    case "ArrayPattern":
+      for (const element of pattern.elements) {
+        collectPatternIdentifiers(element, out);
+      }
+      break;
+    case "RestElement":
+      collectPatternIdentifiers(pattern.argument, out);
+      break;
+    case "AssignmentPattern":
+      collectPatternIdentifiers(pattern.left, out);
+      break;
+  }
+  return out;
+};
+
+const declarePattern = (
+  pattern: any,
+  kind: BindingKind,
+  scope: Scope,
+  declarations: Map<any, Binding>
+): void => {
+  for (const id of collectPatternIdentifiers(pattern)) {
+    declarations.set(id, scope.declare(id.name, kind, id));
+  }
+};
+
+/**
+ * Analyze the lexical scopes of a parsed program
+ *
+ * Runs two passes so hoisted declarations (functions, `var`) and
+ * references that appear before a declaration resolve correctly.
+ *
+ * @param ast - Program node produced by acorn
+ * @returns Scope tree plus identifier → binding maps
+ *
+ * @example
+ * const { program, references } = analyzeScopes(acorn.parse(code, opts));
+ * references.forEach((binding, node) => {
+ *   if (binding?.scope === program) node.name = `_${node.name}`;
+ * });
+ */
+export const analyzeScopes = (ast: any): ScopeAnalysis => {
+  const scopes = new WeakMap<any, Scope>();
+  const declarations = new Map<any, Binding>();
+  const references = new Map<any, Binding | null>();
+
+  const blockScope = (node: any, st: Scope): Scope => {
+    let scope = scopes.get(node);
+    if (!scope) {
+      scope = new Scope("block", st);
+      scopes.set(node, scope);
+    }
+    return scope;
+  };
+
+  // Pass 1: build scopes and declare bindings
+  let program: Scope | null = null;
+  walk.recursive(ast, null as Scope | null, {
+    Program(node: any, _st: Scope | null, c: any) {
+      program = new Scope("program", null);
+      scopes.set(node, program);
+      walk.base.Program(node, program, c);
+    },
+    Function(node: any, st: Scope, c: any) {
+      if (node.type === "FunctionDeclaration" && node.id) {
+        declarePattern(node.id, "function", st, declarations);
+      }
+      const fnScope = new Scope("function", st);
+      scopes.set(node, fnScope);
+      if (node.type === "FunctionExpression" && node.id) {
+        declarePattern(node.id, "function", fnScope, declarations);
+      }
+      for (const param of node.params) {
+        declarePattern(param, "param", fnScope, declarations);
+        c(param, fnScope, "Pattern");
+      }
+      if (node.body.type === "BlockStatement") scopes.set(node.body, fnScope);
+      c(node.body, fnScope, node.expression ? "Expression" : "Statement");
+    },
+    BlockStatement(node: any, st: Scope, c: any) {
+      walk.base.BlockStatement(node, blockScope(node, st), c);
+    },
+    StaticBlock(node: any, st: Scope, c: any) {
+      // Class static blocks scope their own `var` declarations
+      const scope = new Scope("function", st);
+      scopes.set(node, scope);
+      walk.base.StaticBlock(node, scope, c);
+    },
+    ForStatement(node: any, st: Scope, c: any) {
+      walk.base.ForStatement(node, blockScope(node, st), c);
+    },
+    ForInStatement(node: any, st: Scope, c: any) {
+      walk.base.ForInStatement(node, blockScope(node, st), c);
+    },
+    ForOfStatement(node: any, st: Scope, c: any) {
+      walk.base.ForOfStatement(node, blockScope(node, st), c);
+    },
+    SwitchStatement(node: any, st: Scope, c: any) {
+      walk.base.SwitchStatement(node, blockScope(node, st), c);
+    },
+    Class(node: any, st: Scope, c: any) {
+      // Declarations bind in the enclosing scope; a named class expression
+      // only sees its own name inside the class body
+      if (node.type === "ClassDeclaration" && node.id) {
+        declarePattern(node.id, "class", st, declarations);
+      }
+      const scope = blockScope(node, st);
+      if (node.type === "ClassExpression" && node.id) {
+        declarePattern(node.id, "class", scope, declarations);
+      }
+      walk.base.Class(node, scope, c);
+    },
+    CatchClause(node: any, st: Scope, c: any) {
+      const scope = blockScope(node, st);
+      if (node.param) declarePattern(node.param, "catch", scope, declarations);
+      if (node.body) scopes.set(node.body, scope);
+      walk.base.CatchClause(node, scope, c);
+    },
+    VariableDeclaration(node: any, st: Scope, c: any) {
+      // `using` / `await using` bindings behave like `const`
+      const kind: BindingKind = node.kind === "var" || node.kind === "let" ? node.kind : "const";
+      const target = kind === "var" ? st.hoistTarget() : st;
+      for (const declarator of node.declarations) {
+        declarePattern(declarator.id, kind, target, declarations);
+      }
+      walk.base.VariableDeclaration(node, st, c);
+    },
+  });
+
+  // Pass 2: resolve every identifier against the finished scope tree
+  const enter = (node: any, st: Scope): Scope => scopes.get(node) ?? st;
+  const resolve = (node: any, st: Scope) => {
+    if (declarations.has(node)) return;
+    references.set(node, st.lookup(node.name));
+  };
+  // acorn-walk routes binding identifiers through the "VariablePattern" category,
+  // which its typings do not list
+  walk.recursive(ast, program as Scope, {
+    Program(node: any, st: Scope, c: any) {
+      walk.base.Program(node, enter(node, st), c);
+    },
+    Function(node: any, st: Scope, c: any) {
+      const fnScope = enter(node, st);
+      for (const param of node.params) c(param, fnScope, "Pattern");
+      c(node.body, fnScope, node.expression ? "Expression" : "Statement");
+    },
+    BlockStatement(node: any, st: Scope, c: any) {
+      walk.base.BlockStatement(node, enter(node, st), c);
+    },
+    StaticBlock(node: any, st: Scope, c: any) {
+      walk.base.StaticBlock(node, enter(node, st), c);
+    },
+    ForStatement(node: any, st: Scope, c: any) {
+      walk.base.ForStatement(node, enter(node, st), c);
+    },
+    ForInStatement(node: any, st: Scope, c: any) {
+      walk.base.ForInStatement(node, enter(node, st), c);
+    },
+    ForOfStatement(node: any, st: Scope, c: any) {
+      walk.base.ForOfStatement(node, enter(node, st), c);
+    },
+    SwitchStatement(node: any, st: Scope, c: any) {
+      walk.base.SwitchStatement(node, enter(node, st), c);
+    },
+    Class(node: any, st: Scope, c: any) {
+      walk.base.Class(node, enter(node, st), c);
+    },
+    CatchClause(node: any, st: Scope, c: any) {
+      walk.base.CatchClause(node, enter(node, st), c);
+    },
+    Identifier: resolve,
+    VariablePattern: resolve,
+  } as walk.RecursiveVisitors<Scope>);
+
+  return { program: program as Scope, declarations, references };
+};
@@ -0,0 +1,358 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Setup Deferral - Moves top-level sketch statements into setup()
+ *
+ * Some top-level code cannot run while the p5 instance is being constructed:
+ * - statements using top-level `await` (instance-mode sketches run inside a
+ *   synchronous constructor callback),
+ * - initializers that call p5 functions (`let c = color(255, 0, 0);`), which
+ *   need an initialized sketch, and statements that use their results.
+ *
+ * Deferred statements are gathered into a top-level init function that
+ * `setup()` calls first. Their bindings stay declared at the top level, so
+ * `draw()` and other functions keep seeing them, and the deferred code still
+ * resolves names lexically against the top level rather than setup's locals.
+ */
+import * as walk from "acorn-walk";
+import { analyzeScopes, collectPatternIdentifiers } from "./p5-scope";
+import type { Binding } from "./p5-scope";
+
+/**
+ * Name of the generated function holding deferred statements
+ */
+export const DEFERRED_INIT_NAME = "__p5DeferredInit";
+
+const isFunctionNode = (node: any): boolean =>
+  !!node && (node.type === "ArrowFunctionExpression" || node.type === "FunctionExpression");
+
+/**
+ * Find the top-level definition of `setup`
+ *
+ * @param ast - Program node
+ * @returns The function node defining setup, or null when there is none
+ */
+export const findSetupFunction = (ast: any): any | null => {
+  for (const statement of ast.body) {
+    if (statement.type === "FunctionDeclaration" && statement.id?.name === "setup") {
+      return statement;
+    }
+    if (statement.type === "VariableDeclaration" && statement.declarations.length === 1) {
+      const { id, init } = statement.declarations[0];
+      if (id.type === "Identifier" && id.name === "setup" && isFunctionNode(init)) return init;
+    }
+  }
+  return null;
+};
+
+/**
+ * Whether a node awaits outside of any nested function
+ *
+ * Covers `await expr` as well as `for await (...)` loops.
+ */
+export const containsTopLevelAwait = (node: any): boolean => {
+  let found = false;
+  walk.recursive(node, null, {
+    Function() {
+      // Awaits inside nested functions belong to those functions
+    },
+    AwaitExpression() {
+      found = true;
+    },
+    ForOfStatement(loop: any, st: null, c: any) {
+      if (loop.await) found = true;
+      walk.base.ForOfStatement(loop, st, c);
+    },
+  });
+  return found;
+};
+
+/**
+ * Whether a top-level statement only defines functions or classes
+ *
+ * Such statements are hoisted (or merely bind a function value) and never
+ * need to be deferred.
+ */
+export const isDefinitionStatement = (statement: any): boolean => {
+  if (statement.type === "FunctionDeclaration" || statement.type === "ClassDeclaration") return true;
+  if (statement.type === "EmptyStatement") return true;
+  return (
+    statement.type === "VariableDeclaration" &&
+    statement.declarations.every((d: any) => d.id.type === "Identifier" && isFunctionNode(d.init))
+  );
+};
+
+/**
+ * Top-level statements that must move into setup because of `await`
+ *
+ * Everything from the first statement that awaits onwards is deferred, so
+ * statement order is preserved; function and class definitions stay put.
+ *
+ * @param ast - Program node
+ * @returns Statements to pass to {@link deferToSetup}
+ */
+export const collectTopLevelAwaitStatements = (ast: any): any[] => {
+  const first = ast.body.findIndex(
+    (statement: any) => !isDefinitionStatement(statement) && containsTopLevelAwait(statement)
+  );
+  if (first === -1) return [];
+  return ast.body.slice(first).filter((statement: any) => !isDefinitionStatement(statement));
+};
+
+/**
+ * A top-level statement that must wait for the sketch to be initialized
+ */
+export interface P5CallDeferral {
+  /** The top-level statement */
+  statement: any;
+  /** First p5 function it calls, or null when it only uses a deferred binding */
+  callee: any | null;
+  /** Top-level variables it declares */
+  names: string[];
+}
+
+/**
+ * Top-level statements that call p5 functions before the sketch exists
+ *
+ * Calls made directly by a top-level statement (not inside a function it
+ * defines) run while the p5 constructor is still setting up the instance,
+ * and so do static fields and static blocks of a class declaration.
+ * Statements that read a binding initialized (or assigned) by such a
+ * statement are included too, so they keep seeing its value. Only unresolved callees are
+ * considered: a sketch function named like a p5 function is not p5's.
+ *
+ * @param ast - Program node
+ * @param isP5Function - Whether an unresolved name is a p5 function
+ * @returns Statements to pass to {@link deferToSetup}, in program order
+ *
+ * @example
+ * // let c = color(255, 0, 0);  ->  [{ statement, callee: <color>, names: ["c"] }]
+ * const deferrals = collectP5CallStatements(ast, (name) => api.functions.has(name));
+ */
+export const collectP5CallStatements = (
+  ast: any,
+  isP5Function: (name: string) => boolean
+): P5CallDeferral[] => {
+  const { declarations, references } = analyzeScopes(ast);
+  const deferredBindings = new Set<Binding>();
+  const deferrals: P5CallDeferral[] = [];
+  for (const statement of ast.body) {
+    if (isDefinitionStatement(statement) && statement.type !== "ClassDeclaration") continue;
+    let callee: any = null;
+    let usesDeferred = false;
+    const assigned: any[] = [];
+    walk.recursive(statement, null, {
+      Function() {
+        // Function bodies run later, once the sketch exists
+      },
+      Class(node: any, st: null, c: any) {
+        // Methods and instance fields run when instantiated; the superclass,
+        // computed keys, static fields and static blocks run with the definition
+        if (node.superClass) c(node.superClass, st, "Expression");
+        for (const member of node.body.body) {
+          if (member.computed) c(member.key, st, "Expression");
+          if (member.type === "StaticBlock") c(member, st);
+          else if (member.type === "PropertyDefinition" && member.static && member.value) c(member.value, st, "Expression");
+        }
+      },
+      CallExpression(node: any, st: null, c: any) {
+        const target = node.callee;
+        if (!callee && target.type === "Identifier" && references.get(target) === null && isP5Function(target.name)) {
+          callee = target;
+        }
+        walk.base.CallExpression(node, st, c);
+      },
+      AssignmentExpression(node: any, st: null, c: any) {
+        if (node.left.type !== "MemberExpression") collectPatternIdentifiers(node.left, assigned);
+        walk.base.AssignmentExpression(node, st, c);
+      },
+      Identifier(node: any) {
+        const binding = references.get(node);
+        if (binding && deferredBindings.has(binding)) usesDeferred = true;
+      },
+    });
+    if (!callee && !usesDeferred) continue;
+    const ids =
+      statement.type === "VariableDeclaration"
+        ? statement.declarations.flatMap((d: any) => collectPatternIdentifiers(d.id))
+        : statement.type === "ClassDeclaration"
+          ? [statement.id]
+          : [];
+    for (const id of ids) {
+      const binding = declarations.get(id);
+      if (binding) deferredBindings.add(binding);
+    }
+    for (const id of assigned) {
+      const binding = references.get(id);
+      if (binding) deferredBindings.add(binding);
+    }
+    deferrals.push({ statement, callee, names: ids.map((id: any) => id.name) });
+  }
+  return deferrals;
+};
+
+const identifier = (name: string, from?: any) => ({
+  type: "Identifier",
+  name,
+  start: from?.start,
+  end: from?.end,
+  loc: from?.loc,
+});
+
+/**
+ * Find setup() and make sure its body is a block statement
+ *
+ * Creates an empty `function setup() {}` when the sketch has none, and turns
+ * an arrow function's expression body into a block, so callers can insert
+ * statements at its start with {@link prependToSetup}.
+ *
+ * @param ast - Program node, modified in place
+ * @returns The function node defining setup
+ */
+export const ensureSetupBlock = (ast: any): any => {
+  let setup = findSetupFunction(ast);
+  if (!setup) {
+    setup = {
+      type: "FunctionDeclaration",
+      id: identifier("setup"),
+      params: [],
+      body: { type: "BlockStatement", body: [] },
+      async: false,
+      generator: false,
+      expression: false,
+    };
+    ast.body.push(setup);
+  }
+  if (setup.body.type !== "BlockStatement") {
+    setup.body = {
+      type: "BlockStatement",
+      body: [{ type: "ExpressionStatement", expression: setup.body }],
+    };
+    setup.expression = false;
+  }
+  return setup;
+};
+
+/**
+ * Insert a statement at the start of setup(), after its directives
+ *
+ * Directives (`"use strict"`) only count while they come first, so the
+ * statement goes right after them.
+ *
+ * @param setup - Function node returned by {@link ensureSetupBlock}
+ * @param statement - Statement to insert
+ */
+export const prependToSetup = (setup: any, statement: any): void => {
+  const statements = setup.body.body;
+  let directives = 0;
+  while (statements[directives]?.directive) directives++;
+  statements.splice(directives, 0, statement);
+};
+
+/**
+ * Move top-level statements to the start of setup()
+ *
+ * Variable declarations are split: the binding remains at the top level
+ * (`let x;`, `const` becoming `let`) and the initializer becomes an
+ * assignment inside the deferred init function; class declarations likewise
+ * keep a top-level `let` and are assigned a class expression. When any deferred statement
+ * awaits, both the init function and setup become async. A `setup()` is
+ * created if the sketch has none.
+ *
+ * Must run before scope analysis, as it restructures the program.
+ *
+ * @param ast - Program node, modified in place
+ * @param deferred - Top-level statements of `ast` to move
+ */
+export const deferToSetup = (ast: any, deferred: any[]): void => {
+  if (deferred.length === 0) return;
+
+  const kept: any[] = [];
+  const moved: any[] = [];
+  let initIndex = -1;
+  for (const statement of ast.body) {
+    if (!deferred.includes(statement)) {
+      kept.push(statement);
+      continue;
+    }
+    if (initIndex === -1) initIndex = kept.length;
+    if (statement.type === "ClassDeclaration") {
+      kept.push({
+        type: "VariableDeclaration",
+        kind: "let",
+        declarations: [{ type: "VariableDeclarator", id: identifier(statement.id.name, statement.id), init: null }],
+        start: statement.start,
+        end: statement.end,
+        loc: statement.loc,
+      });
+      moved.push({
+        type: "ExpressionStatement",
+        expression: {
+          type: "AssignmentExpression",
+          operator: "=",
+          left: identifier(statement.id.name, statement.id),
+          right: { ...statement, type: "ClassExpression" },
+        },
+        start: statement.start,
+        end: statement.end,
+        loc: statement.loc,
+      });
+      continue;
+    }
+    if (statement.type !== "VariableDeclaration") {
+      moved.push(statement);
+      continue;
+    }
+    const ids = statement.declarations.flatMap((d: any) => collectPatternIdentifiers(d.id));
+    kept.push({
+      ...statement,
+      kind: statement.kind === "var" ? "var" : "let",
+      declarations: ids.map((id: any) => ({
+        type: "VariableDeclarator",
+        id: identifier(id.name, id),
+        init: null,
+        start: id.start,
+        end: id.end,
+        loc: id.loc,
+      })),
+    });
+    for (const declarator of statement.declarations) {
+      if (!declarator.init) continue;
+      moved.push({
+        type: "ExpressionStatement",
+        expression: {
+          type: "AssignmentExpression",
+          operator: "=",
+          left: declarator.id,
+          right: declarator.init,
+          start: declarator.start,
+          end: declarator.end,
+          loc: declarator.loc,
+        },
+        start: declarator.start,
+        end: declarator.end,
+        loc: declarator.loc,
+      });
+    }
+  }
+
+  const isAsync = moved.some(containsTopLevelAwait);
+  kept.splice(initIndex, 0, {
+    type: "FunctionDeclaration",
+    id: identifier(DEFERRED_INIT_NAME),
+    params: [],
+    body: { type: "BlockStatement", body: moved },
+    async: isAsync,
+    generator: false,
+    expression: false,
+  });
+  ast.body = kept;
+
+  const setup = ensureSetupBlock(ast);
+
+  const call: any = { type: "CallExpression", callee: identifier(DEFERRED_INIT_NAME), arguments: [], optional: false };
+  prependToSetup(setup, {
+    type: "ExpressionStatement",
+    expression: isAsync ? { type: "AwaitExpression", argument: call } : call,
+  });
+  if (isAsync) setup.async = true;
+};
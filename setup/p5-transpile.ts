@@ -2,8 +2,22 @@
 import * as acorn from "acorn";
 import * as walk from "acorn-walk";
 import { generate } from "astring";
-import globals from "./p5-globals";
+import { SourceMapConsumer, SourceMapGenerator } from "source-map-js";
+import type { TranspileDiagnostic, TranspileResult } from "../types";
+import { formatDiagnostic } from "./diagnostics";
+import { BROWSER_GLOBALS, FALLBACK_P5_API_TABLES } from "./p5-api-tables";
+import type { P5ApiTables } from "./p5-api-tables";
 import main from "./p5-main";
+import { migrateSketch } from "./p5-migration";
+import { instrumentLoopGuards } from "./loop-guard";
+import { lintSketch } from "./p5-lint";
+import type { P5LintRules } from "./p5-lint";
+import { analyzeScopes } from "./p5-scope";
+import type { Binding, ScopeAnalysis } from "./p5-scope";
+import { TS_SKETCH_SOURCE_NAME, stripTypeAnnotations } from "./typescript-sketch";
+import { rewriteSketchImports } from "./sketch-imports";
+import { collectP5CallStatements, collectTopLevelAwaitStatements, deferToSetup } from "./p5-setup-deferral";
+import type { P5CallDeferral } from "./p5-setup-deferral";
 
 /*
 https://gist.github.com/tangert/cd4ce84e0e7a4d240694d0e0536db27d
@@ -102,173 +116,663 @@ _p.draw = function () {
  */
 export const P5_NAMESPACE = "_p";
 
+/**
+ * Parser options for sketches
+ *
+ * Accepts the newest ECMAScript syntax acorn knows (class fields, private
+ * members, static blocks, logical assignment, numeric separators, ...) and
+ * top-level `await`, which is deferred into an async `setup()`.
+ */
+const PARSE_OPTIONS: acorn.Options = {
+  ecmaVersion: "latest",
+  allowAwaitOutsideFunction: true,
+};
+
+/**
+ * Parse a sketch, as a module when it uses `import` or `export`
+ *
+ * Sketches are parsed as classic scripts first, so sketches without imports
+ * keep sloppy-mode semantics; only a failure caused by `import` / `export`
+ * is retried as a module (see `setup/sketch-imports.ts`).
+ */
+const parseSketch = (code: string, options: Partial<acorn.Options> = {}): acorn.Program => {
+  try {
+    return acorn.parse(code, { ...PARSE_OPTIONS, ...options });
+  } catch (error) {
+    if (!(error instanceof SyntaxError) || !error.message.includes("sourceType: module")) throw error;
+    return acorn.parse(code, { ...PARSE_OPTIONS, ...options, sourceType: "module" });
+  }
+};
+
+/**
+ * Default name of the author's source in generated source maps
+ */
+export const SKETCH_SOURCE_NAME = "sketch.js";
+
+/**
+ * Options for {@link transpileSketch}
+ */
+export interface TranspileOptions {
+  /** Name of the source recorded in the source map */
+  sourceName?: string;
+  /**
+   * p5 function and constant names to rewrite to `_p.`; defaults to the
+   * static fallback list (see `setup/p5-api-tables.ts`)
+   */
+  apiTables?: P5ApiTables;
+  /**
+   * p5 version the sketch will run on (e.g. from `getP5VersionFromUrl()`);
+   * enables the 1.x / 2.x migration pass in `setup/p5-migration.ts`
+   */
+  p5Version?: string;
+  /** Treat the sketch as TypeScript: strip type syntax first (see `setup/typescript-sketch.ts`) */
+  typescript?: boolean;
+  /**
+   * Instrument loops and recursion with the loop guard (see
+   * `setup/loop-guard.ts`); the runtime from `getLoopGuardScript()` must run
+   * before the code
+   */
+  loopGuard?: boolean;
+  /**
+   * Report common p5 mistakes as warnings (see `setup/p5-lint.ts`); an
+   * object turns individual rules off
+   */
+  lint?: boolean | P5LintRules;
+}
+
+/**
+ * Syntax proposals that are not part of ECMAScript yet, keyed by the
+ * source text that introduces them
+ */
+const UNSUPPORTED_PROPOSALS: Array<{ token: string; name: string }> = [
+  { token: "@", name: "Decorator syntax (@)" },
+  { token: "|>", name: "The pipeline operator (|>)" },
+  { token: "#{", name: "Record syntax (#{ })" },
+  { token: "#[", name: "Tuple syntax (#[ ])" },
+];
+
+/**
+ * Describe a parse failure as a diagnostic
+ *
+ * Syntax that is still only a proposal gets its own rule id and a hint
+ * explaining that sketches cannot use it yet.
+ *
+ * @param code - Sketch source
+ * @param error - Exception thrown by acorn
+ */
+const parseErrorDiagnostic = (code: string, error: any): TranspileDiagnostic => {
+  // acorn attaches the position of syntax errors as `loc`
+  const loc: acorn.Position | undefined = error?.loc;
+  if (!(error instanceof SyntaxError) || !loc) {
+    return {
+      severity: "error",
+      message: error instanceof Error ? error.message : String(error),
+      range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 },
+      ruleId: "syntax-error",
+    };
+  }
+  const { line, column } = loc;
+  const diagnostic: TranspileDiagnostic = {
+    severity: "error",
+    message: error.message.replace(/\s*\(\d+:\d+\)$/, ""),
+    range: { startLine: line, startColumn: column + 1, endLine: line, endColumn: column + 2 },
+    ruleId: "syntax-error",
+  };
+  // acorn reports proposals at (or one character past) their first token
+  const sourceLine = code.split("\n")[line - 1] ?? "";
+  const near = sourceLine.slice(Math.max(0, column - 1), column + 2);
+  const proposal = UNSUPPORTED_PROPOSALS.find(({ token }) => near.includes(token));
+  if (proposal) {
+    diagnostic.ruleId = "unsupported-proposal";
+    diagnostic.hint =
+      `${proposal.name} is a JavaScript proposal and not yet supported in sketches ` +
+      `(the sketch parser accepts standard ECMAScript up to acorn ${acorn.version}).`;
+  }
+  return diagnostic;
+};
+
+/**
+ * Check sketch code for syntax errors
+ *
+ * Produces a readable message naming the line and column, quoting the
+ * offending line and, for syntax that is still only a proposal, explaining
+ * that sketches cannot use it yet.
+ *
+ * @param code - Sketch source
+ * @returns Error message, or null when the code parses
+ *
+ * @example
+ * checkSketchSyntax("@frozen class A {}");
+ * // "Syntax error at line 1, column 1: Unexpected character '@' [unsupported-proposal]\n..."
+ */
+export const checkSketchSyntax = (code: string): string | null => {
+  try {
+    parseSketch(code);
+    return null;
+  } catch (error) {
+    return formatDiagnostic(parseErrorDiagnostic(code, error), code);
+  }
+};
+
+/**
+ * Names the top-level user bindings get in instance mode
+ *
+ * Names already starting with `_` are kept, others get an `_` prefix. A
+ * prefixed name must not be taken by another binding of any scope (`let x;`
+ * next to `let _x;`, or a local `_x` that would capture references to `x`),
+ * by a global the sketch uses, or by the p5 namespace itself (`p` / `_p`);
+ * such names get further underscores until they are free.
+ *
+ * @param analysis - Scope analysis of the program
+ * @param kept - Top-level bindings that are not renamed (lifecycle functions)
+ * @returns New name of each renamed top-level binding
+ */
+const prefixTopLevelNames = (analysis: ScopeAnalysis, kept: Map<Binding, unknown>): Map<Binding, string> => {
+  const taken = new Set<string>([P5_NAMESPACE]);
+  analysis.declarations.forEach((binding) => taken.add(binding.name));
+  analysis.references.forEach((binding, node) => {
+    if (binding === null) taken.add(node.name);
+  });
+  const names = new Map<Binding, string>();
+  for (const binding of analysis.program.bindings.values()) {
+    if (kept.has(binding)) continue;
+    const { name } = binding;
+    let prefixed = name.startsWith("_") && name !== P5_NAMESPACE ? name : `_${name}`;
+    while (prefixed !== name && taken.has(prefixed)) prefixed = `_${prefixed}`;
+    taken.add(prefixed);
+    names.set(binding, prefixed);
+  }
+  return names;
+};
+
+const isLifecycleName = (name: string): boolean => main.functions.includes(name);
+
+interface ApiNameSets {
+  functions: ReadonlySet<string>;
+  constants: ReadonlySet<string>;
+}
+
+/**
+ * Warn that a user binding hides a p5 API of the same name
+ *
+ * Mirrors p5's Friendly Error System, which reports sketches that redefine
+ * p5 functions or variables in global mode.
+ */
+const shadowedApiDiagnostic = (binding: Binding, api: ApiNameSets): TranspileDiagnostic | null => {
+  const { name, node } = binding;
+  const isFunction = api.functions.has(name);
+  if (!isFunction && !api.constants.has(name)) return null;
+  const apiName = isFunction ? `function ${name}()` : `variable ${name}`;
+  const start = node.loc?.start ?? { line: 1, column: 0 };
+  return {
+    severity: "warning",
+    message: `"${name}" shadows the p5.js ${apiName}; within its scope "${name}" refers to your ${binding.kind} declaration.`,
+    range: {
+      startLine: start.line,
+      startColumn: start.column + 1,
+      endLine: start.line,
+      endColumn: start.column + 1 + name.length,
+    },
+    ruleId: "shadowed-p5-api",
+    hint: `Rename it (for example "my${name.charAt(0).toUpperCase()}${name.slice(1)}") if you meant to use the p5.js ${isFunction ? "function" : "variable"}.`,
+  };
+};
+
+/**
+ * Explain that a top-level statement calling p5 now runs in setup()
+ */
+const deferredCallDiagnostic = ({ statement, callee, names }: P5CallDeferral): TranspileDiagnostic => {
+  const start = callee.loc?.start ?? { line: 1, column: 0 };
+  const kept = names.map((name) => `"${name}"`).join(", ");
+  const kind = statement.type === "ClassDeclaration" ? "class" : names.length > 0 ? "initializer" : "statement";
+  return {
+    severity: "info",
+    message:
+      `${callee.name}() needs a running sketch, so this top-level ${kind} now runs at the start of setup()` +
+      (names.length > 0 ? `; ${kept} ${names.length > 1 ? "stay top-level variables" : "stays a top-level variable"}.` : "."),
+    range: {
+      startLine: start.line,
+      startColumn: start.column + 1,
+      endLine: start.line,
+      endColumn: start.column + 1 + callee.name.length,
+    },
+    ruleId: "deferred-p5-call",
+    hint: `p5 functions are only available once the sketch starts; declare the variable at the top level and assign it in setup() to make this explicit.`,
+  };
+};
+
+const isFunctionNode = (node: any): boolean =>
+  !!node && (node.type === "ArrowFunctionExpression" || node.type === "FunctionExpression");
+
+/**
+ * Build `_p.<name> = <fn>` in place of a lifecycle declaration
+ *
+ * The generated names carry the location of the original declaration so the
+ * source map points `_p.setup = ...` at `function setup()`.
+ */
+const toInstanceAssignment = (name: string, fn: any, loc?: any) => ({
+  type: "ExpressionStatement",
+  expression: {
+    type: "AssignmentExpression",
+    operator: "=",
+    left: {
+      type: "MemberExpression",
+      computed: false,
+      object: { type: "Identifier", name: P5_NAMESPACE, loc },
+      property: { type: "Identifier", name, loc },
+    },
+    right: fn,
+  },
+});
+
+/**
+ * Whether a parsed program creates its own p5 instance
+ *
+ * Matches `new p5(...)` where `p5` is not declared by the sketch, and
+ * `new window.p5(...)`, anywhere in the program.
+ */
+const createsP5Instance = (ast: any): boolean => {
+  const candidates: any[] = [];
+  let viaWindow = false;
+  walk.simple(ast, {
+    NewExpression(node: any) {
+      const { callee } = node;
+      if (callee.type === "Identifier" && callee.name === "p5") {
+        candidates.push(callee);
+      } else if (
+        callee.type === "MemberExpression" &&
+        !callee.computed &&
+        callee.object.type === "Identifier" &&
+        callee.object.name === "window" &&
+        callee.property.name === "p5"
+      ) {
+        viaWindow = true;
+      }
+    },
+  });
+  if (viaWindow) return true;
+  if (candidates.length === 0) return false;
+  const { references } = analyzeScopes(ast);
+  return candidates.some((callee) => references.get(callee) === null);
+};
+
+/**
+ * Detect instance-mode sketches (code that calls `new p5(...)` itself)
+ *
+ * @param code - Sketch source
+ * @returns True when the sketch creates its own p5 instance; false for
+ *   global-mode sketches and code that does not parse
+ *
+ * @example
+ * isInstanceModeSketch("new p5((s) => { s.setup = () => s.createCanvas(100, 100); });"); // true
+ * isInstanceModeSketch("function setup() { createCanvas(100, 100); }"); // false
+ */
+export const isInstanceModeSketch = (code: string): boolean => {
+  try {
+    return createsP5Instance(parseSketch(code));
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Marker comment overriding p5 detection: `// @p5` or `// @no-p5`
+ */
+export type P5Pragma = "p5" | "no-p5";
+
+const P5_PRAGMA = /^[ \t]*\/\/[ \t]*@(p5|no-p5)[ \t]*$/m;
+
+// Code that does not parse is a sketch when it declares a lifecycle function,
+// so the transpiler reports its syntax error
+const LIFECYCLE_DECLARATION = /\bfunction\s+(setup|draw|preload)\s*\(/;
+
+/**
+ * Read the p5 pragma of a code block
+ *
+ * @param code - Code of the block
+ * @returns The first `// @p5` / `// @no-p5` comment on a line of its own,
+ *   or null
+ */
+export const readP5Pragma = (code: string): P5Pragma | null =>
+  (code.match(P5_PRAGMA)?.[1] as P5Pragma | undefined) ?? null;
+
+/**
+ * Names of the top-level lifecycle functions a program defines
+ *
+ * Covers `function setup() {}`, `const draw = () => {}` and `setup = function() {}`.
+ */
+const definedLifecycleNames = (ast: any): string[] => {
+  const names: string[] = [];
+  for (const statement of ast.body) {
+    if (statement.type === "FunctionDeclaration" && statement.id) {
+      names.push(statement.id.name);
+    } else if (statement.type === "VariableDeclaration") {
+      for (const declarator of statement.declarations) {
+        if (declarator.id.type === "Identifier" && isFunctionNode(declarator.init)) names.push(declarator.id.name);
+      }
+    } else if (
+      statement.type === "ExpressionStatement" &&
+      statement.expression.type === "AssignmentExpression" &&
+      statement.expression.left.type === "Identifier" &&
+      isFunctionNode(statement.expression.right)
+    ) {
+      names.push(statement.expression.left.name);
+    }
+  }
+  return names.filter(isLifecycleName);
+};
+
+/**
+ * Detect p5 sketches from their parse tree
+ *
+ * Code is a sketch when it creates its own p5 instance, calls a p5 function
+ * it does not declare (`createCanvas()`), or defines a lifecycle function
+ * (`setup`, `draw`, an event handler) and reads a p5 name (`mouseX`,
+ * `width`). Names in comments and strings do not count, nor does a
+ * `setup()` that uses no p5 API. Browser globals (`print`) are not p5 names.
+ *
+ * @param code - Code of the block
+ * @param options - `typescript` to strip type syntax first; `apiTables` for
+ *   the p5 names (the bundled tables by default)
+ * @returns True for p5 sketches
+ *
+ * @example
+ * isP5Sketch("function draw() { circle(mouseX, mouseY, 20); }"); // true
+ * isP5Sketch("// setup() is called below\nfunction setup() { console.log('ready'); }"); // false
+ */
+export const isP5Sketch = (code: string, options: Pick<TranspileOptions, "apiTables" | "typescript"> = {}): boolean => {
+  let ast: any;
+  try {
+    const source = options.typescript ? stripTypeAnnotations(code).code : code;
+    if (source === null) return LIFECYCLE_DECLARATION.test(code);
+    ast = parseSketch(source);
+  } catch (error) {
+    return LIFECYCLE_DECLARATION.test(code);
+  }
+  if (createsP5Instance(ast)) return true;
+  const apiTables = options.apiTables ?? FALLBACK_P5_API_TABLES;
+  const functions = new Set(apiTables.functions);
+  const constants = new Set(apiTables.constants);
+  const callees = new Set<any>();
+  walk.simple(ast, {
+    CallExpression(node: any) {
+      if (node.callee.type === "Identifier") callees.add(node.callee);
+    },
+  });
+  const definesLifecycle = definedLifecycleNames(ast).length > 0;
+  const { references } = analyzeScopes(ast);
+  for (const [node, binding] of references) {
+    if (binding !== null || BROWSER_GLOBALS.has(node.name)) continue;
+    if (functions.has(node.name) && (callees.has(node) || definesLifecycle)) return true;
+    if (constants.has(node.name) && definesLifecycle) return true;
+  }
+  return false;
+};
+
+/**
+ * Transpile a TypeScript sketch
+ *
+ * Strips type syntax, transpiles the JavaScript, then maps diagnostics and
+ * the source map back through the stripping step, so both refer to the
+ * TypeScript source.
+ */
+const transpileTypeScriptSketch = (code: string, options: TranspileOptions): TranspileResult => {
+  const stripped = stripTypeAnnotations(code, options.sourceName ?? TS_SKETCH_SOURCE_NAME);
+  if (stripped.code === null || !stripped.map) {
+    return { code: null, map: null, mode: "global", diagnostics: stripped.diagnostics };
+  }
+  const result = transpileSketch(stripped.code, { ...options, typescript: false, sourceName: SKETCH_SOURCE_NAME });
+  const toTypeScript = new SourceMapConsumer(stripped.map);
+
+  // Type stripping keeps lines, so only columns need the source map
+  const toSource = (line: number, column: number): { line: number; column: number } => {
+    const original = toTypeScript.originalPositionFor({
+      line,
+      column: column - 1,
+      bias: SourceMapConsumer.GREATEST_LOWER_BOUND,
+    });
+    return original.line === line && original.column !== null ? { line, column: original.column + 1 } : { line, column };
+  };
+  const diagnostics = result.diagnostics.map((diagnostic) => {
+    const start = toSource(diagnostic.range.startLine, diagnostic.range.startColumn);
+    const end = toSource(diagnostic.range.endLine, diagnostic.range.endColumn);
+    return {
+      ...diagnostic,
+      range: {
+        startLine: start.line,
+        startColumn: start.column,
+        endLine: end.line,
+        endColumn: Math.max(end.column, start.column + 1),
+      },
+    };
+  });
+
+  if (result.code === null) return { ...result, diagnostics };
+  // Unguarded instance-mode sketches are the stripped code itself
+  if (!result.map) return { ...result, map: result.mode === "instance" ? stripped.map : null, diagnostics };
+  const generator = SourceMapGenerator.fromSourceMap(new SourceMapConsumer(result.map));
+  generator.applySourceMap(toTypeScript, SKETCH_SOURCE_NAME);
+  return { ...result, map: generator.toJSON(), diagnostics };
+};
+
 /**
  * Transpile p5.js global mode code to instance mode
  *
  * Transforms global p5 functions to use instance mode syntax:
- * - Prefixes user variables with `_` to avoid p5 namespace conflicts
+ * - Prefixes top-level user bindings with `_` to avoid p5 namespace conflicts
  * - Converts `setup()` to `_p.setup = function() { ... }`
  * - Converts `createCanvas(...)` to `_p.createCanvas(...)`
- * - Maintains function scope and variable bindings
+ * - Resolves each identifier to its declaring scope, so function locals,
+ *   parameters and shadowing declarations keep their names
+ * - Keeps async lifecycle functions async and moves top-level `await`
+ *   statements into an async `setup()`
+ *
+ * Also emits a source map (via astring) from the generated code back to
+ * `globalCode`, used to report errors at the author's line and column, and
+ * collects diagnostics instead of throwing.
+ *
+ * Sketches that already create their own instance (`new p5(...)`) are
+ * returned unchanged with `mode: "instance"` so they run as written (only
+ * instrumented when `loopGuard` is set, or rewritten when they import).
+ *
+ * `import` declarations become `const` declarations reading the module
+ * namespaces listed in `imports` (see `setup/sketch-imports.ts`).
  *
  * @param globalCode - p5.js code written in global mode
- * @returns Transpiled instance mode code, or null if parsing fails
+ * @param options - Transpile options
+ * @returns Code, source map and diagnostics; `code` is null when an error
+ *   diagnostic (e.g. a syntax error) prevented transpiling
  *
  * @example
- * const code = `
- *   function setup() { createCanvas(400, 400); }
- *   function draw() { background(220); }
- * `;
- * const transpiled = transpileGlobalToInstance(code);
- * // Returns: _p.setup = function() { _p.createCanvas(400, 400); }
- * //          _p.draw = function() { _p.background(220); }
+ * const result = transpileSketch(`function setup() { createCanvas(400, 400); }`);
+ * // result.code: _p.setup = function () { _p.createCanvas(400, 400); };
+ * // result.map:  { version: 3, sources: ["sketch.js"], mappings: "..." }
+ * // result.diagnostics: []
+ * // result.mode: "global"
  */
-export const transpileGlobalToInstance = (
-  globalCode: string
-): string | null => {
+export const transpileSketch = (
+  globalCode: string,
+  options: TranspileOptions = {}
+): TranspileResult => {
+  if (options.typescript) return transpileTypeScriptSketch(globalCode, options);
+  const sourceName = options.sourceName ?? SKETCH_SOURCE_NAME;
+  const apiTables = options.apiTables ?? FALLBACK_P5_API_TABLES;
+  const api: ApiNameSets = {
+    functions: new Set(apiTables.functions),
+    constants: new Set(apiTables.constants),
+  };
+  const diagnostics: TranspileDiagnostic[] = [];
+  let ast: any;
   try {
-    const ast = acorn.parse(globalCode, { ecmaVersion: 2020 });
-    const varMap = new Map();
-
-    walk.ancestor(ast, {
-      VariableDeclaration(node: any) {
-        // Transform lifecycle arrow/function assignments into instance mode
-        if (node.declarations && node.declarations.length === 1) {
-          const declaration = node.declarations[0];
-          const id = declaration.id;
-          const init = declaration.init;
-          const isLifecycle =
-            id &&
-            id.type === "Identifier" &&
-            (globals.functions.includes(id.name) || main.functions.includes(id.name));
-          const isFnInit =
-            init &&
-            (init.type === "ArrowFunctionExpression" || init.type === "FunctionExpression");
-          if (isLifecycle && isFnInit) {
-            // Replace the entire declaration with `_p.<name> = <fn>`
-            Object.assign(node, {
-              type: "ExpressionStatement",
-              expression: {
-                type: "AssignmentExpression",
-                operator: "=",
-                left: {
-                  type: "MemberExpression",
-                  computed: false,
-                  object: { type: "Identifier", name: P5_NAMESPACE },
-                  property: { type: "Identifier", name: id.name },
-                },
-                right: init,
-              },
-            });
-            return;
-          }
-        }
+    ast = parseSketch(globalCode, { locations: true });
+  } catch (error) {
+    return { code: null, map: null, mode: "global", diagnostics: [parseErrorDiagnostic(globalCode, error)] };
+  }
 
-        node.declarations.forEach((declaration: any) => {
-          const varName: string = declaration.id.name;
-          if (!varMap.has(varName)) {
-            varMap.set(
-              varName,
-              varName.startsWith("_") ? varName : `_${varName}`
-            );
-          }
-          declaration.id.name = varMap.get(varName);
-        });
-      },
-      AssignmentExpression(node: any) {
-        // Handle both left and right sides of assignments
-        if (node.left.type === "Identifier") {
-          const lhsName = node.left.name;
-          if (varMap.has(lhsName)) {
-            node.left.name = varMap.get(lhsName);
-          }
-        }
-        if (node.right.type === "Identifier") {
-          const rhsName = node.right.name;
-          if (varMap.has(rhsName)) {
-            node.right.name = varMap.get(rhsName);
-          }
-        }
-      },
-      Property(node: any) {
-        // Expand shorthand properties so we can safely rename values without mutating keys
-        if (node && node.shorthand && node.key && node.value && node.key.type === "Identifier" && node.value.type === "Identifier") {
-          const keyName = node.key.name;
-          if (varMap.has(keyName)) {
-            node.shorthand = false;
-            node.value.name = varMap.get(keyName);
-          }
+  try {
+    // Imports become declarations inside the instance wrapper
+    const isModule = ast.sourceType === "module";
+    const { imports, diagnostics: importDiagnostics } = isModule
+      ? rewriteSketchImports(ast)
+      : { imports: [], diagnostics: [] };
+    const moduleFields = imports.length > 0 ? { imports } : {};
+    if (importDiagnostics.length > 0) {
+      return { code: null, map: null, mode: "global", diagnostics: importDiagnostics };
+    }
+
+    if (createsP5Instance(ast)) {
+      if (!options.loopGuard && !isModule) return { code: globalCode, map: null, mode: "instance", diagnostics };
+      if (options.loopGuard) instrumentLoopGuards(ast);
+      const map = new SourceMapGenerator({ file: sourceName });
+      map.setSourceContent(sourceName, globalCode);
+      return { code: generate(ast, { sourceMap: map }), map: map.toJSON(), mode: "instance", diagnostics, ...moduleFields };
+    }
+
+    // Lint the sketch as written, before any rewrite
+    if (options.lint) {
+      diagnostics.push(...lintSketch(ast, api, options.lint === true ? {} : options.lint));
+    }
+
+    // Adapt 1.x idioms (preload) to a 2.x target and flag version mismatches
+    diagnostics.push(...migrateSketch(ast, options.p5Version));
+
+    // Instance mode runs top-level code synchronously inside the p5
+    // constructor, so anything after the first top-level `await`, and
+    // initializers calling p5 functions, move into the start of setup()
+    const p5Deferrals = collectP5CallStatements(
+      ast,
+      (name) => api.functions.has(name) && !isLifecycleName(name)
+    );
+    for (const deferral of p5Deferrals) {
+      if (deferral.callee) diagnostics.push(deferredCallDiagnostic(deferral));
+    }
+    deferToSetup(ast, [
+      ...new Set([...collectTopLevelAwaitStatements(ast), ...p5Deferrals.map((d) => d.statement)]),
+    ]);
+    const analysis = analyzeScopes(ast);
+    const { program, declarations, references } = analysis;
+
+    // Top-level lifecycle definitions become `_p.<name>` assignments
+    const lifecycle = new Map<Binding, any>();
+    for (const statement of ast.body) {
+      if (statement.type === "FunctionDeclaration" && statement.id && isLifecycleName(statement.id.name)) {
+        lifecycle.set(declarations.get(statement.id), statement);
+      } else if (statement.type === "VariableDeclaration" && statement.declarations.length === 1) {
+        const { id, init } = statement.declarations[0];
+        if (id.type === "Identifier" && isLifecycleName(id.name) && isFunctionNode(init)) {
+          lifecycle.set(declarations.get(id), statement);
         }
+      }
+    }
+
+    const calls = new Set<any>();
+    walk.simple(ast, {
+      CallExpression(node: any) {
+        if (node.callee.type === "Identifier") calls.add(node.callee);
       },
-      Identifier(node: any, ancestors: any[]) {
-        // Determine if the identifier is part of a function call
-        const isFunctionCall = ancestors.some((ancestor) => {
-          if (
-            ancestor.type === "CallExpression" &&
-            ancestor.callee.type === "Identifier" &&
-            ancestor.callee.name === node.name
-          ) {
-            return true;
-          }
-          return false;
+    });
+
+    for (const binding of new Set(declarations.values())) {
+      if (lifecycle.has(binding)) continue;
+      const diagnostic = shadowedApiDiagnostic(binding, api);
+      if (diagnostic) diagnostics.push(diagnostic);
+    }
+
+    const topLevelNames = prefixTopLevelNames(analysis, lifecycle);
+    declarations.forEach((binding, node) => {
+      const renamed = topLevelNames.get(binding);
+      if (renamed) node.name = renamed;
+    });
+
+    references.forEach((binding, node) => {
+      // Locals, parameters and shadowing declarations are never rewritten
+      if (binding && binding.scope !== program) return;
+      const name: string = node.name;
+      if (binding) {
+        // User bindings win over p5 names throughout their scope
+        node.name = lifecycle.has(binding) ? `${P5_NAMESPACE}.${name}` : topLevelNames.get(binding) ?? name;
+      } else if (
+        (calls.has(node) && api.functions.has(name)) ||
+        api.constants.has(name)
+      ) {
+        node.name = `${P5_NAMESPACE}.${name}`;
+      }
+    });
+
+    // Expand shorthand properties so renamed values keep their original keys,
+    // both in object literals (`{ size }`) and destructuring (`let { x = 0 } = pos`)
+    const expandShorthand = (prop: any) => {
+      if (!prop.shorthand || prop.key.type !== "Identifier") return;
+      const value = prop.value.type === "AssignmentPattern" ? prop.value.left : prop.value;
+      if (value.type === "Identifier" && value.name !== prop.key.name) {
+        prop.shorthand = false;
+      }
+    };
+    walk.simple(ast, {
+      Property: expandShorthand,
+      ObjectPattern(node: any) {
+        node.properties.forEach((prop: any) => {
+          if (prop.type === "Property") expandShorthand(prop);
         });
-        // acorn-walk `ancestor` includes the current node as the last entry.
-        // Parent is the previous element.
-        const parent = ancestors[ancestors.length - 2];
-        const isKeyPosition =
-          (parent &&
-            (
-              (parent.type === "Property" && parent.key === node && !parent.computed) ||
-              (parent.type === "PropertyDefinition" && parent.key === node && !parent.computed) ||
-              (parent.type === "MethodDefinition" && parent.key === node && !parent.computed) ||
-              (parent.type === "MemberExpression" && parent.property === node && !parent.computed) ||
-              (parent.type === "ImportSpecifier" && parent.imported === node) ||
-              (parent.type === "ExportSpecifier" && parent.exported === node)
-            ));
-        if (
-          !isKeyPosition &&
-          ((isFunctionCall && globals.functions.includes(node.name)) ||
-            globals.constants.includes(node.name))
-        ) {
-          node.name = `${P5_NAMESPACE}.${node.name}`;
-        } else if (!isFunctionCall && !isKeyPosition && varMap.has(node.name)) {
-          node.name = varMap.get(node.name);
-        }
-      },
-      FunctionDeclaration(node: any) {
-        if (
-          node.id &&
-          (globals.functions.includes(node.id.name) ||
-            main.functions.includes(node.id.name))
-        ) {
-          node.id.name = varMap.get(node.id.name) || node.id.name;
-          const assignment = {
-            type: "AssignmentExpression",
-            operator: "=",
-            left: {
-              type: "MemberExpression",
-              computed: false,
-              object: { type: "Identifier", name: P5_NAMESPACE },
-              property: { type: "Identifier", name: node.id.name },
-            },
-            right: {
-              type: "FunctionExpression",
-              params: node.params,
-              body: node.body,
-              async: node.async,
-              generator: node.generator,
-              expression: false,
-              id: null,
-            },
-          };
-          Object.assign(node, assignment);
-        }
       },
     });
 
-    return generate(ast);
+    lifecycle.forEach((statement, binding) => {
+      if (statement.type === "FunctionDeclaration") {
+        Object.assign(
+          statement,
+          toInstanceAssignment(binding.name, {
+            type: "FunctionExpression",
+            params: statement.params,
+            body: statement.body,
+            async: statement.async,
+            generator: statement.generator,
+            expression: false,
+            id: null,
+            loc: statement.loc,
+          }, statement.id.loc)
+        );
+      } else {
+        const { id, init } = statement.declarations[0];
+        Object.assign(statement, toInstanceAssignment(binding.name, init, id.loc));
+      }
+    });
+
+    if (options.loopGuard) instrumentLoopGuards(ast);
+
+    const map = new SourceMapGenerator({ file: sourceName });
+    map.setSourceContent(sourceName, globalCode);
+    const code = generate(ast, { sourceMap: map });
+    return { code, map: map.toJSON(), mode: "global", diagnostics, ...moduleFields };
   } catch (error) {
-    console.error("Error parsing code:", error);
-    return null;
+    diagnostics.push({
+      severity: "error",
+      message: `Failed to transpile sketch: ${error instanceof Error ? error.message : String(error)}`,
+      range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 },
+      ruleId: "transpile-error",
+    });
+    return { code: null, map: null, mode: "global", diagnostics };
   }
 };
+
+/**
+ * Transpile p5.js global mode code to instance mode
+ *
+ * Convenience wrapper around {@link transpileSketch} for callers that only
+ * need the code.
+ *
+ * @param globalCode - p5.js code written in global mode
+ * @returns Transpiled instance mode code, or null if parsing fails
+ *   (see {@link checkSketchSyntax} for a readable reason)
+ *
+ * @example
+ * const code = `
+ *   function setup() { createCanvas(400, 400); }
+ *   function draw() { background(220); }
+ * `;
+ * const transpiled = transpileGlobalToInstance(code);
+ * // Returns: _p.setup = function() { _p.createCanvas(400, 400); }
+ * //          _p.draw = function() { _p.background(220); }
+ */
+export const transpileGlobalToInstance = (globalCode: string): string | null =>
+  transpileSketch(globalCode).code;
@@ -155,3 +155,32 @@ export const getP5LoadUrl = (config?: P5VersionConfig): string => {
   // Default to latest
   return getP5CDNUrl();
 };
+
+/**
+ * Get the p5.js version a load URL points to
+ *
+ * Used to pick version-specific transforms (see `setup/p5-migration.ts`).
+ *
+ * @param url - URL returned by {@link getP5LoadUrl}
+ * @returns Version string, or undefined when the URL does not name one
+ *   (e.g. a self-hosted `p5.min.js`)
+ *
+ * @example
+ * getP5VersionFromUrl(getP5LoadUrl({ version: '1.7.0' })); // '1.7.0'
+ * getP5VersionFromUrl('https://cdn.jsdelivr.net/npm/p5@2/lib/p5.js'); // '2'
+ * getP5VersionFromUrl('/vendor/p5.min.js'); // undefined
+ */
+export const getP5VersionFromUrl = (url?: string): string | undefined => {
+  if (!url) {
+    return undefined;
+  }
+
+  const known = Object.keys(SUPPORTED_VERSIONS).find((version) => SUPPORTED_VERSIONS[version] === url);
+  if (known) {
+    return known;
+  }
+
+  // CDN paths such as p5@1.9.4, p5/1.9.4 (cdnjs) or p5-1.9.4
+  const match = url.match(/\bp5(?:\.js)?[@/-]v?(\d+(?:\.\d+){0,2})(?=[/-]|$)/);
+  return match ? match[1] : undefined;
+};
@@ -0,0 +1,128 @@
+/**
+ * Run Target - Binds a `<P5Code>` code block to the iframe it runs in
+ *
+ * `<P5Code>` passes its `sketchInstanceId` (and the file name of a tab) to
+ * each of its code blocks as a runner option; Slidev hands runner options
+ * to the code runner as `ctx.options`. The runner resolves the run target
+ * from that option alone, so a Run started by autorun, by a keyboard
+ * shortcut or after focus has moved still reaches the right preview, and a
+ * code block that is not bound to a preview gets an error instead of doing
+ * nothing.
+ */
+import { SKETCH_FILE_ATTRIBUTE } from "./sketch-files";
+import { SELECTORS } from "./selectors";
+import { SKETCH_ID_ATTRIBUTE } from "./console-stream";
+
+/**
+ * Key of the runner option `<P5Code>` sets on its code blocks
+ */
+export const RUN_TARGET_OPTION = "p5Sketch";
+
+/**
+ * Value of the {@link RUN_TARGET_OPTION} runner option
+ */
+export interface RunTargetOption {
+  /** `sketchInstanceId` of the `<P5Code>` (its `data-p5code-id`) */
+  sketchInstanceId: string;
+  /** File name of the tab the block is shown in, for multi-file sketches */
+  file?: string;
+}
+
+/**
+ * Elements a run acts on
+ */
+export interface RunTarget {
+  sketchInstanceId: string;
+  /** Author `id` of the `<P5Code>`, which `<P5Console for>` binds to */
+  sketchId: string | null;
+  /** The `<P5Code>` editor container (`data-p5code-id`) */
+  editor: HTMLElement;
+  /** The preview iframe */
+  iframe: HTMLIFrameElement;
+  /** Tab panel of the block being run, when the sketch has several files */
+  panel: HTMLElement | null;
+  /** File name of that tab */
+  file: string | null;
+  /** Run button of the block, the stop button is placed next to it */
+  runButton: HTMLElement | null;
+}
+
+/**
+ * Runner options binding a code block to a `<P5Code>`
+ *
+ * @param sketchInstanceId - `sketchInstanceId` of the `<P5Code>`
+ * @param file - File name of the block's tab, if it has one
+ * @param options - The block's own runner options, kept
+ */
+export const bindRunTarget = (
+  sketchInstanceId: string,
+  file?: string,
+  options?: Record<string, unknown>
+): Record<string, unknown> => ({
+  ...options,
+  [RUN_TARGET_OPTION]: file ? { sketchInstanceId, file } : { sketchInstanceId },
+});
+
+/**
+ * Read the {@link RUN_TARGET_OPTION} option from a runner context
+ *
+ * @param ctx - Context passed to the code runner
+ * @returns The option, or null when the code block is not bound
+ */
+export const readRunTargetOption = (ctx: unknown): RunTargetOption | null => {
+  const options = (ctx as { options?: Record<string, unknown> } | null)?.options;
+  const option = options?.[RUN_TARGET_OPTION] as Partial<RunTargetOption> | undefined;
+  if (!option || typeof option.sketchInstanceId !== "string" || !option.sketchInstanceId) return null;
+  return typeof option.file === "string"
+    ? { sketchInstanceId: option.sketchInstanceId, file: option.file }
+    : { sketchInstanceId: option.sketchInstanceId };
+};
+
+/**
+ * Find the preview a code block runs in
+ *
+ * @param ctx - Context passed to the code runner
+ * @param doc - Document holding the slides
+ * @returns The run target, or an error message for the output panel when
+ *   the block is not bound to a `<P5Code>` or its preview is not exactly one
+ *   iframe in the page
+ *
+ * @example
+ * const resolved = resolveRunTarget(ctx);
+ * if ("error" in resolved) return { text: resolved.error };
+ */
+export const resolveRunTarget = (
+  ctx: unknown,
+  doc: Document = document
+): { target: RunTarget } | { error: string } => {
+  const option = readRunTargetOption(ctx);
+  if (!option) {
+    return { error: "Error: This code block is not part of a <P5Code>, so it has no preview to run in. Put it inside <P5Code>." };
+  }
+  const id = option.sketchInstanceId;
+  const selector = `[data-p5code-id="${id.replace(/["\\]/g, "\\$&")}"]`;
+  const iframes = Array.from(doc.querySelectorAll<HTMLIFrameElement>(`iframe${selector}`));
+  // Run buttons carry the id too (see `<P5Code>`)
+  const editor = doc.querySelector<HTMLElement>(`${selector}:not(iframe):not(button)`);
+  if (iframes.length === 0 || !editor) {
+    return { error: "Error: The preview of this <P5Code> is not in the page. Reload the slide and run again." };
+  }
+  if (iframes.length > 1) {
+    return { error: `Error: ${iframes.length} previews share the id of this <P5Code> (${id}); it cannot tell which one to run in.` };
+  }
+  const panel = option.file
+    ? Array.from(editor.querySelectorAll<HTMLElement>(`[${SKETCH_FILE_ATTRIBUTE}]`))
+      .find((el) => el.getAttribute(SKETCH_FILE_ATTRIBUTE) === option.file) ?? null
+    : null;
+  return {
+    target: {
+      sketchInstanceId: id,
+      sketchId: editor.getAttribute(SKETCH_ID_ATTRIBUTE) || null,
+      editor,
+      iframe: iframes[0],
+      panel,
+      file: option.file ?? null,
+      runButton: (panel ?? editor).querySelector<HTMLElement>(SELECTORS.PLAY_BUTTON),
+    },
+  };
+};
@@ -0,0 +1,163 @@
+/**
+ * Run Tokens - Sequencing of the runs of one preview
+ *
+ * Every run of a sketch in a preview iframe takes a {@link RunToken} from
+ * {@link beginRun}, which cancels the run still in progress there. A
+ * cancelled run:
+ * - stops waiting (on the preview, the transpiler or its script) and
+ *   returns {@link CANCELLED_RUN_TEXT},
+ * - does not start its sketch: the injected script compares its token with
+ *   `window.__p5Addon.runToken` first (see `buildSketchScript()`),
+ * - tears down what it already set up (stop button, output) through the
+ *   callbacks given to {@link RunToken.onCancel}.
+ *
+ * A finished run stays live until a newer run replaces its sketch
+ * ({@link takeOverPreview}); a newer run that fails before that, e.g. on a
+ * syntax error, leaves it running.
+ */
+
+/**
+ * Output of a run replaced by a newer one before it finished
+ */
+export const CANCELLED_RUN_TEXT = "Run cancelled: a newer run of this sketch started.";
+
+type RunTokenIframe = HTMLIFrameElement & {
+  /** Token of the latest run */
+  __p5RunToken?: RunToken;
+  /** Token of the run whose sketch is in the preview */
+  __p5LiveRun?: RunToken;
+};
+
+/**
+ * Token of one run of a preview
+ */
+export class RunToken {
+  private isCancelled = false;
+  private isFinished = false;
+  private teardowns: Array<() => void> = [];
+  private waiters: Array<() => void> = [];
+
+  /**
+   * @param id - Sequence number of the run in its preview, from 1
+   */
+  constructor(readonly id: number) {}
+
+  get cancelled(): boolean {
+    return this.isCancelled;
+  }
+
+  get finished(): boolean {
+    return this.isFinished;
+  }
+
+  /**
+   * Mark the run finished: its sketch runs, and starting another run no
+   * longer cancels it
+   */
+  finish(): void {
+    this.isFinished = true;
+  }
+
+  /**
+   * Register a teardown, run when the token is cancelled (at once if it
+   * already is)
+   *
+   * @param teardown - Undoes something the run set up
+   */
+  onCancel(teardown: () => void): void {
+    if (this.isCancelled) {
+      this.runTeardown(teardown);
+      return;
+    }
+    this.teardowns.push(teardown);
+  }
+
+  /**
+   * Wait for a step of the run unless the run is cancelled first
+   *
+   * @param step - Promise the run waits on
+   * @returns Its value, or null once the run is cancelled
+   *
+   * @example
+   * const output = await token.race(transpileSketchAsync(code));
+   * if (output === null) return { text: CANCELLED_RUN_TEXT };
+   */
+  race<T>(step: Promise<T>): Promise<T | null> {
+    if (this.isCancelled) return Promise.resolve(null);
+    return new Promise<T | null>((resolve, reject) => {
+      const onCancel = () => resolve(null);
+      this.waiters.push(onCancel);
+      step.then(
+        (value) => {
+          this.waiters = this.waiters.filter((w) => w !== onCancel);
+          resolve(this.isCancelled ? null : value);
+        },
+        (error: unknown) => {
+          this.waiters = this.waiters.filter((w) => w !== onCancel);
+          if (this.isCancelled) resolve(null);
+          else reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Cancel the run: release its waits and run its teardowns
+   */
+  cancel(): void {
+    if (this.isCancelled) return;
+    this.isCancelled = true;
+    const waiters = this.waiters;
+    const teardowns = this.teardowns;
+    this.waiters = [];
+    this.teardowns = [];
+    waiters.forEach((waiter) => waiter());
+    teardowns.forEach((teardown) => this.runTeardown(teardown));
+  }
+
+  private runTeardown(teardown: () => void): void {
+    try {
+      teardown();
+    } catch (e) {
+      // the next run replaces what is left
+    }
+  }
+}
+
+/**
+ * Start a run in a preview, cancelling the run in progress there
+ *
+ * @param iframe - The preview iframe
+ * @returns The token of the new run
+ */
+export const beginRun = (iframe: HTMLIFrameElement): RunToken => {
+  const tracked = iframe as RunTokenIframe;
+  const previous = tracked.__p5RunToken;
+  const token = new RunToken((previous?.id ?? 0) + 1);
+  tracked.__p5RunToken = token;
+  if (previous && !previous.finished) previous.cancel();
+  return token;
+};
+
+/**
+ * Let a run replace the sketch in a preview, retiring the finished run
+ * whose sketch is there (its stop button and output go away)
+ *
+ * @param iframe - The preview iframe
+ * @param token - Token of the run about to start its sketch
+ */
+export const takeOverPreview = (iframe: HTMLIFrameElement, token: RunToken): void => {
+  const tracked = iframe as RunTokenIframe;
+  const live = tracked.__p5LiveRun;
+  tracked.__p5LiveRun = token;
+  if (live && live !== token) live.cancel();
+};
+
+/**
+ * Whether a token belongs to the latest run of a preview
+ *
+ * @param iframe - The preview iframe
+ * @param token - Token of a run
+ */
+export const isCurrentRun = (iframe: HTMLIFrameElement, token: RunToken): boolean =>
+  (iframe as RunTokenIframe).__p5RunToken === token && !token.cancelled;
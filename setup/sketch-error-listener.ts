@@ -0,0 +1,74 @@
+/**
+ * Sketch Error Listener - Reports runtime errors thrown by injected sketches
+ *
+ * Sketch code runs from a blob script inside the preview iframe, so its
+ * runtime errors (in setup, draw, event handlers or an async setup) surface
+ * on the iframe window rather than in the runner. This module:
+ * - listens for `error` and `unhandledrejection` on the iframe window,
+ * - maps the failing position back to the author's source via ErrorLineMapper,
+ * - hands a formatted message (with a source excerpt) to a reporter.
+ */
+import type { ErrorLineMapper } from "./error-line-mapper";
+
+/**
+ * Format a runtime error at the author's source position
+ *
+ * @param error - Thrown value
+ * @param mapper - Mapper for the script that threw
+ * @param location - Known `url:line:column` of the throw site, if any
+ * @returns Message such as `TypeError: x is undefined (line 9, column 3)` plus excerpt
+ *
+ * @example
+ * formatSketchError(err, mapper, `${event.filename}:${event.lineno}:${event.colno}`);
+ */
+export const formatSketchError = (
+  error: unknown,
+  mapper: ErrorLineMapper,
+  location: string = ""
+): string => {
+  const errObj = (error as { name?: unknown; message?: unknown; stack?: unknown } | null) ?? null;
+  const name = typeof errObj?.name === "string" ? errObj.name : "Error";
+  const message = typeof errObj?.message === "string" ? errObj.message : String(error);
+  const stack = typeof errObj?.stack === "string" ? errObj.stack : "";
+
+  const position = mapper.locateInStack(location) ?? mapper.locateInStack(stack);
+  if (!position) return `${name}: ${message}`;
+  return `${name}: ${message} (${mapper.describePosition(position)})\n${mapper.formatSourceContext(position)}`;
+};
+
+/**
+ * Report runtime errors raised on an iframe window
+ *
+ * @param targetWindow - The iframe's window
+ * @param mapper - Mapper configured with the injected script URL and source map
+ * @param report - Receives each formatted error
+ * @returns Function removing the listeners
+ *
+ * @example
+ * const detach = attachSketchErrorListener(iframe.contentWindow, mapper, appendLog);
+ * // later, before the next run
+ * detach();
+ */
+export const attachSketchErrorListener = (
+  targetWindow: Window,
+  mapper: ErrorLineMapper,
+  report: (message: string) => void
+): (() => void) => {
+  const onError = (event: ErrorEvent) => {
+    const location = event.filename ? `${event.filename}:${event.lineno}:${event.colno}` : "";
+    report(formatSketchError(event.error ?? { message: event.message }, mapper, location));
+  };
+  const onRejection = (event: PromiseRejectionEvent) => {
+    report(formatSketchError(event.reason, mapper));
+  };
+  targetWindow.addEventListener("error", onError);
+  targetWindow.addEventListener("unhandledrejection", onRejection);
+  return () => {
+    try {
+      targetWindow.removeEventListener("error", onError);
+      targetWindow.removeEventListener("unhandledrejection", onRejection);
+    } catch (e) {
+      // Window may already be gone
+    }
+  };
+};
@@ -0,0 +1,210 @@
+/**
+ * Sketch Files - Multi-file sketches in `<P5Code>`
+ *
+ * A `<P5Code>` with several code blocks shows them as file tabs
+ * (`Particle.js`, `Flock.js`, `sketch.js`). Running any tab runs the whole
+ * sketch:
+ * - the files are joined, in the order they are written, into one program
+ *   that is transpiled and executed like a single-file sketch,
+ * - the line span of each file is kept, so diagnostics and runtime errors
+ *   can be reported as `Particle.js` line 4 rather than line 31 of the
+ *   joined program.
+ *
+ * Files other than the one being run are read from their Monaco editors;
+ * `setup/monaco.ts` hands the editor API to this module.
+ */
+import type { TranspileDiagnostic } from "../types";
+
+/**
+ * Attribute carrying the file name on each tab panel of a `<P5Code>`
+ */
+export const SKETCH_FILE_ATTRIBUTE = "data-p5-file";
+
+/**
+ * One file of a sketch
+ */
+export interface SketchFile {
+  /** File name shown on the tab, e.g. `Particle.js` */
+  name: string;
+  code: string;
+}
+
+/**
+ * Where a file sits in the joined program
+ */
+export interface SketchFileSpan {
+  name: string;
+  /** First line of the file in the joined program (1-based) */
+  startLine: number;
+  /** Number of lines the file occupies */
+  lineCount: number;
+}
+
+/**
+ * Several files joined into one program
+ */
+export interface CombinedSketch {
+  code: string;
+  files: SketchFileSpan[];
+}
+
+/**
+ * A line of the joined program, expressed in one of its files
+ */
+export interface FileLine {
+  file: string;
+  line: number;
+}
+
+/**
+ * The subset of `monaco.editor` used to read file contents
+ */
+export interface MonacoEditorApi {
+  getEditors(): ReadonlyArray<{ getContainerDomNode(): HTMLElement; getValue(): string }>;
+}
+
+let editorApi: MonacoEditorApi | null = null;
+
+/**
+ * Join sketch files into one program
+ *
+ * Files are separated by a line holding a single `;`, so a file ending
+ * without a semicolon cannot run into the first statement of the next one.
+ *
+ * @param files - Files in the order they are written
+ * @returns The joined code and the line span of each file
+ *
+ * @example
+ * const { code, files } = combineSketchFiles([
+ *   { name: 'Particle.js', code: 'class Particle {}' },
+ *   { name: 'sketch.js', code: 'function setup() {}' },
+ * ]);
+ * // code: "class Particle {}\n;\nfunction setup() {}"
+ * // files: [{ name: 'Particle.js', startLine: 1, lineCount: 1 }, { name: 'sketch.js', startLine: 3, lineCount: 1 }]
+ */
+export const combineSketchFiles = (files: SketchFile[]): CombinedSketch => {
+  const parts: string[] = [];
+  const spans: SketchFileSpan[] = [];
+  let line = 1;
+  for (const file of files) {
+    const code = file.code.replace(/\n+$/, "");
+    const lineCount = code.split("\n").length;
+    spans.push({ name: file.name, startLine: line, lineCount });
+    parts.push(code);
+    line += lineCount + 1;
+  }
+  return { code: parts.join("\n;\n"), files: spans };
+};
+
+/**
+ * Find the file a line of the joined program belongs to
+ *
+ * @param files - Spans from {@link combineSketchFiles}
+ * @param line - Line in the joined program (1-based)
+ * @returns The file and the line within it, or null for separator lines
+ *
+ * @example
+ * locateInFiles(files, 3); // { file: 'sketch.js', line: 1 }
+ */
+export const locateInFiles = (files: SketchFileSpan[], line: number): FileLine | null => {
+  const span = files.find((f) => line >= f.startLine && line < f.startLine + f.lineCount);
+  return span ? { file: span.name, line: line - span.startLine + 1 } : null;
+};
+
+/**
+ * Move diagnostics of the joined program into the files they point at
+ *
+ * Each diagnostic gets its `file` set and its range made file-relative; a
+ * range ending in a later file is cut at the end of its first file.
+ *
+ * @param diagnostics - Diagnostics reported against the joined program
+ * @param files - Spans from {@link combineSketchFiles}
+ * @returns New diagnostics with file-relative ranges
+ */
+export const splitDiagnosticsByFile = (
+  diagnostics: TranspileDiagnostic[],
+  files: SketchFileSpan[]
+): TranspileDiagnostic[] =>
+  diagnostics.map((d) => {
+    const start = locateInFiles(files, d.range.startLine) ?? locateInFiles(files, d.range.startLine - 1);
+    if (!start) return d;
+    const end = locateInFiles(files, d.range.endLine);
+    const sameFile = end?.file === start.file;
+    return {
+      ...d,
+      file: start.file,
+      range: {
+        startLine: start.line,
+        startColumn: d.range.startColumn,
+        endLine: sameFile ? end.line : start.line,
+        endColumn: sameFile ? d.range.endColumn : d.range.startColumn + 1,
+      },
+    };
+  });
+
+/**
+ * Cut a joined program back into its files' sources, by name
+ *
+ * @param code - Joined code from {@link combineSketchFiles}
+ * @param files - Its file spans
+ * @returns Source of each file, for diagnostic excerpts
+ */
+export const sketchFileSources = (code: string, files: SketchFileSpan[]): Record<string, string> => {
+  const lines = code.split("\n");
+  return Object.fromEntries(
+    files.map((f) => [f.name, lines.slice(f.startLine - 1, f.startLine - 1 + f.lineCount).join("\n")])
+  );
+};
+
+/**
+ * Give this module access to Monaco's editors (called from `setup/monaco.ts`)
+ */
+export const setMonacoEditorApi = (api: MonacoEditorApi | null): void => {
+  editorApi = api;
+};
+
+/**
+ * Current contents of the Monaco editor rendered inside an element
+ *
+ * @param panel - A file tab panel
+ * @returns The editor's code, or null when no editor is found
+ */
+export const readEditorCode = (panel: Element): string | null => {
+  try {
+    const editor = editorApi?.getEditors().find((e) => panel.contains(e.getContainerDomNode()));
+    return editor ? editor.getValue() : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Gather the files of the multi-file `<P5Code>` whose editor is running
+ *
+ * @param editorContainer - The `<P5Code>` editor container (`data-p5code-id`)
+ * @param runElement - Tab panel of the code block being run (or an element
+ *   inside it), used to tell which tab's code is the one passed to the runner
+ * @param runCode - Code the runner received for that tab
+ * @returns The files and the names of files whose editor could not be
+ *   read, or null when the container holds a single code block
+ */
+export const collectSketchFiles = (
+  editorContainer: Element | null,
+  runElement: Element | null,
+  runCode: string
+): { files: SketchFile[]; unreadable: string[] } | null => {
+  const panels = editorContainer
+    ? Array.from(editorContainer.querySelectorAll(`[${SKETCH_FILE_ATTRIBUTE}]`))
+    : [];
+  if (panels.length < 2) return null;
+  const runPanel = runElement?.closest?.(`[${SKETCH_FILE_ATTRIBUTE}]`) ?? null;
+  const files: SketchFile[] = [];
+  const unreadable: string[] = [];
+  for (const panel of panels) {
+    const name = panel.getAttribute(SKETCH_FILE_ATTRIBUTE) ?? "";
+    const code = panel === runPanel ? runCode : readEditorCode(panel);
+    if (code === null) unreadable.push(name);
+    files.push({ name, code: code ?? "" });
+  }
+  return { files, unreadable };
+};
@@ -0,0 +1,201 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Sketch Imports - ES module imports in sketches
+ *
+ * Sketches may `import { createNoise2D } from "simplex-noise"` (a package in
+ * the deck's `node_modules`) or import a helper from the deck's folder
+ * (`import { wobble } from "./helpers/wobble.js"`, relative to the deck root):
+ * - the Vite plugin in `setup/sketch-modules-plugin.ts` finds these
+ *   specifiers in the deck's `<P5Canvas>` / `<P5Code>` blocks and builds each
+ *   module with the deck, so sketches work offline,
+ * - preview iframes get an import map from specifier to module URL,
+ * - the transpiler turns each `import` into a declaration reading the
+ *   module's namespace from {@link SKETCH_MODULES_NAME}, so the sketch body
+ *   stays inside the p5 instance wrapper,
+ * - the injected script starts with {@link getSketchModuleHeader}, which
+ *   imports the namespaces, and runs as a module script.
+ */
+import type { TranspileDiagnostic } from "../types";
+
+/**
+ * Vite virtual module mapping each sketch import specifier to a module URL
+ */
+export const SKETCH_MODULES_ID = "virtual:p5-sketch-modules";
+
+/**
+ * Name of the object holding the imported module namespaces in the
+ * injected script, keyed by specifier
+ */
+export const SKETCH_MODULES_NAME = "__p5Modules";
+
+/**
+ * Module URLs by import specifier, as used for the iframe import map
+ */
+export type SketchImportMap = Record<string, string>;
+
+/**
+ * Whether a specifier names a file of the deck rather than a package
+ */
+export const isRelativeSpecifier = (specifier: string): boolean =>
+  specifier.startsWith("./") || specifier.startsWith("../") || specifier.startsWith("/");
+
+const COMPONENT_BLOCK = /<(P5Canvas|P5Code)\b[\s\S]*?<\/\1>/g;
+const IMPORT_STATEMENT = /^\s*import\s+(?:[\w$*{},\s]+?\s+from\s+)?["']([^"']+)["']/gm;
+
+/**
+ * Find the module specifiers imported by the sketches of a slide deck
+ *
+ * Only code inside `<P5Canvas>` and `<P5Code>` blocks is read, so imports in
+ * other code blocks are not built into the deck.
+ *
+ * @param markdown - Markdown source of a slide deck
+ * @returns Specifiers in order of first appearance, without duplicates
+ *
+ * @example
+ * findSketchImportSpecifiers("<P5Code>\n```js\nimport { createNoise2D } from 'simplex-noise'\n```\n</P5Code>");
+ * // ["simplex-noise"]
+ */
+export const findSketchImportSpecifiers = (markdown: string): string[] => {
+  const specifiers = new Set<string>();
+  for (const [block] of markdown.matchAll(COMPONENT_BLOCK)) {
+    for (const [, specifier] of block.matchAll(IMPORT_STATEMENT)) specifiers.add(specifier);
+  }
+  return [...specifiers];
+};
+
+/**
+ * Build the script lines that import a sketch's modules
+ *
+ * Packages are imported by specifier and resolved through the iframe import
+ * map. Deck files are imported by URL: the injected script is a `blob:` URL,
+ * which relative specifiers cannot be resolved against.
+ *
+ * @param specifiers - Specifiers the sketch imports (`TranspileResult.imports`)
+ * @param importMap - Import map of the iframe
+ * @returns Header lines defining {@link SKETCH_MODULES_NAME}, ending with a newline
+ * @throws Error naming the first specifier that is not in the import map
+ *
+ * @example
+ * getSketchModuleHeader(["simplex-noise"], { "simplex-noise": "/assets/simplex-noise.js" });
+ * // import * as __p5Module0 from "simplex-noise";
+ * // const __p5Modules = { "simplex-noise": __p5Module0 };
+ */
+export const getSketchModuleHeader = (specifiers: string[], importMap: SketchImportMap = {}): string => {
+  const lines: string[] = [];
+  const entries: string[] = [];
+  specifiers.forEach((specifier, index) => {
+    const url = importMap[specifier];
+    if (!url) {
+      throw new Error(
+        `Cannot import "${specifier}": it is not built into the deck. ` +
+          (isRelativeSpecifier(specifier)
+            ? "Paths are resolved from the deck's folder; check that the file exists."
+            : `Install it in the deck (npm install ${specifier}).`)
+      );
+    }
+    const source = isRelativeSpecifier(specifier) ? url : specifier;
+    lines.push(`import * as __p5Module${index} from ${JSON.stringify(source)};`);
+    entries.push(`${JSON.stringify(specifier)}: __p5Module${index}`);
+  });
+  lines.push(`const ${SKETCH_MODULES_NAME} = { ${entries.join(", ")} };`);
+  return `${lines.join("\n")}\n`;
+};
+
+/**
+ * Build `<SKETCH_MODULES_NAME>["specifier"]`
+ */
+const moduleNamespace = (specifier: string, loc: any) => ({
+  type: "MemberExpression",
+  computed: true,
+  optional: false,
+  object: { type: "Identifier", name: SKETCH_MODULES_NAME, loc },
+  property: { type: "Literal", value: specifier, raw: JSON.stringify(specifier), loc },
+  loc,
+});
+
+/**
+ * Replace an import declaration with a `const` reading the module namespace
+ *
+ * `import a, { b as c } from "x"` becomes
+ * `const { default: a, b: c } = __p5Modules["x"]`, and
+ * `import * as ns from "x"` becomes `const ns = __p5Modules["x"]`.
+ */
+const toModuleDeclaration = (statement: any): any => {
+  const specifier: string = statement.source.value;
+  const declarations: any[] = [];
+  const properties: any[] = [];
+  for (const node of statement.specifiers) {
+    if (node.type === "ImportNamespaceSpecifier") {
+      declarations.push({
+        type: "VariableDeclarator",
+        id: node.local,
+        init: moduleNamespace(specifier, node.loc),
+        loc: node.loc,
+      });
+      continue;
+    }
+    // A copy: acorn shares one node between `imported` and `local` in `{ a }`
+    const imported = node.type === "ImportDefaultSpecifier"
+      ? { type: "Identifier", name: "default", loc: node.loc }
+      : { ...node.imported };
+    properties.push({
+      type: "Property",
+      key: imported,
+      value: node.local,
+      kind: "init",
+      method: false,
+      shorthand: false,
+      computed: imported.type !== "Identifier",
+      loc: node.loc,
+    });
+  }
+  if (properties.length > 0) {
+    declarations.unshift({
+      type: "VariableDeclarator",
+      id: { type: "ObjectPattern", properties, loc: statement.loc },
+      init: moduleNamespace(specifier, statement.source.loc),
+      loc: statement.loc,
+    });
+  }
+  return { type: "VariableDeclaration", kind: "const", declarations, loc: statement.loc };
+};
+
+/**
+ * Rewrite the imports and exports of a sketch parsed as a module
+ *
+ * Imports become `const` declarations reading {@link SKETCH_MODULES_NAME}
+ * (side-effect imports are dropped; the header still loads them). `export`
+ * is removed from exported declarations; other exports are reported, as a
+ * sketch has no importer.
+ *
+ * @param ast - Program node; modified in place
+ * @returns The imported specifiers in order, and diagnostics for exports
+ *   that cannot be kept
+ */
+export const rewriteSketchImports = (ast: any): { imports: string[]; diagnostics: TranspileDiagnostic[] } => {
+  const imports: string[] = [];
+  const diagnostics: TranspileDiagnostic[] = [];
+  const body: any[] = [];
+  for (const statement of ast.body) {
+    if (statement.type === "ImportDeclaration") {
+      if (!imports.includes(statement.source.value)) imports.push(statement.source.value);
+      if (statement.specifiers.length > 0) body.push(toModuleDeclaration(statement));
+    } else if (statement.type === "ExportNamedDeclaration" && statement.declaration) {
+      body.push(statement.declaration);
+    } else if (statement.type === "ExportNamedDeclaration" || statement.type === "ExportDefaultDeclaration" || statement.type === "ExportAllDeclaration") {
+      const start = statement.loc?.start ?? { line: 1, column: 0 };
+      diagnostics.push({
+        severity: "error",
+        message: "Sketches cannot export values.",
+        range: { startLine: start.line, startColumn: start.column + 1, endLine: start.line, endColumn: start.column + 7 },
+        ruleId: "unsupported-export",
+        hint: "Remove the export statement; to share code between sketches, import it from a file in the deck's folder.",
+      });
+    } else {
+      body.push(statement);
+    }
+  }
+  ast.body = body;
+  ast.sourceType = "script";
+  return { imports, diagnostics };
+};
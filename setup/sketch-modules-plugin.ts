@@ -0,0 +1,92 @@
+/**
+ * Sketch Modules Plugin - Builds the modules sketches import with the deck
+ *
+ * Serves the virtual module `virtual:p5-sketch-modules`, whose default export
+ * maps each specifier imported by a sketch of the deck (see
+ * `findSketchImportSpecifiers()`) to the URL of that module:
+ * - in development, the URL Vite serves the resolved file at,
+ * - in a build, an emitted chunk, so the deck runs offline.
+ *
+ * Packages resolve from the deck's `node_modules` and paths from the deck's
+ * folder. Specifiers that do not resolve are left out; sketches importing
+ * them get an error when run. Adding an import to a slide updates the
+ * virtual module.
+ *
+ * Registered by `setup/vite-plugins.ts`.
+ */
+import path from "node:path";
+import type { ResolvedSlidevOptions, VitePluginsSetup } from "@slidev/types";
+import { SKETCH_MODULES_ID, findSketchImportSpecifiers } from "./sketch-imports";
+
+/**
+ * A Vite plugin, as accepted by Slidev's `vite-plugins` setup
+ */
+type VitePlugin = Extract<ReturnType<VitePluginsSetup>, { name: string }>;
+
+const RESOLVED_ID = `\0${SKETCH_MODULES_ID}`;
+
+/**
+ * URL the Vite dev server serves a resolved file at
+ */
+const toDevUrl = (id: string, root: string, base: string): string => {
+  const prefix = base.replace(/\/$/, "");
+  const relative = path.posix.relative(root, id);
+  return relative.startsWith("..") || path.posix.isAbsolute(relative)
+    ? `${prefix}/@fs${id.startsWith("/") ? "" : "/"}${id}`
+    : `${prefix}/${relative}`;
+};
+
+/**
+ * Create the Vite plugin serving `virtual:p5-sketch-modules`
+ *
+ * @param options - Resolved options of the Slidev deck
+ *
+ * @example
+ * // setup/vite-plugins.ts
+ * export default defineVitePluginsSetup((options) => [sketchModulesPlugin(options)]);
+ */
+export const sketchModulesPlugin = (options: Pick<ResolvedSlidevOptions, "userRoot" | "data">): VitePlugin => {
+  const root = options.userRoot.replace(/\\/g, "/");
+  // Markdown of the deck by file, updated as slides are edited
+  const markdown = new Map(Object.entries(options.data.markdownFiles).map(([file, { raw }]) => [file, raw]));
+  const deckSpecifiers = () => [...new Set([...markdown.values()].flatMap(findSketchImportSpecifiers))];
+  let command = "serve";
+  let base = "/";
+  let loaded: string[] = [];
+
+  return {
+    name: "slidev-addon-p5:sketch-modules",
+    configResolved(config) {
+      command = config.command;
+      base = config.base;
+    },
+    resolveId(id) {
+      return id === SKETCH_MODULES_ID ? RESOLVED_ID : null;
+    },
+    async load(id) {
+      if (id !== RESOLVED_ID) return null;
+      loaded = deckSpecifiers();
+      // Resolve as if imported by a file in the deck's folder
+      const importer = path.join(options.userRoot, "slides.md");
+      const entries: string[] = [];
+      for (const specifier of loaded) {
+        const resolved = await this.resolve(specifier, importer);
+        if (!resolved || resolved.external) continue;
+        const url = command === "build"
+          ? `import.meta.ROLLUP_FILE_URL_${this.emitFile({ type: "chunk", id: resolved.id, preserveSignature: "strict" })}`
+          : `new URL(${JSON.stringify(toDevUrl(resolved.id, root, base))}, window.location.href).href`;
+        entries.push(`  ${JSON.stringify(specifier)}: ${url},`);
+      }
+      return `export default {\n${entries.join("\n")}\n};\n`;
+    },
+    async handleHotUpdate(ctx) {
+      if (!ctx.file.endsWith(".md")) return;
+      markdown.set(ctx.file, await ctx.read());
+      if (deckSpecifiers().every((specifier) => loaded.includes(specifier))) return;
+      const module = ctx.server.moduleGraph.getModuleById(RESOLVED_ID);
+      if (!module) return;
+      ctx.server.moduleGraph.invalidateModule(module);
+      return [...ctx.modules, module];
+    },
+  };
+};
@@ -0,0 +1,275 @@
+/**
+ * Sketch Shaders - GLSL fences next to a sketch
+ *
+ * A `<P5Code>` or `<P5Canvas>` may hold `glsl` fences named `main.vert` and
+ * `main.frag` (or just `vert` / `frag`) beside the sketch. They are not part
+ * of the sketch's program; their sources are exposed to it as the global
+ * {@link SHADERS_GLOBAL}, grouped by shader name:
+ *
+ *   myShader = createShader(shaders.main.vert, shaders.main.frag);
+ *
+ * The runtime from {@link getShaderRuntimeScript} is part of every preview
+ * document:
+ * - it records the shaders created from these sources, so running a shader
+ *   tab swaps the new source into them (recompiled on their next use)
+ *   instead of restarting the sketch,
+ * - it watches GLSL compilation and posts compile errors as a `p5-error`
+ *   naming the shader file and its line (`main.frag line 4: ...`); a fixed
+ *   shader restarts the draw loop the error ended.
+ */
+import type { SketchFile } from "./sketch-files";
+
+/**
+ * Global holding the shader sources in preview documents
+ */
+export const SHADERS_GLOBAL = "shaders";
+
+/**
+ * Shader stage of a GLSL fence
+ */
+export type ShaderStage = "vert" | "frag";
+
+/**
+ * A GLSL fence of a sketch
+ */
+export interface ShaderFile {
+  /** File name shown on the tab, e.g. `main.frag` */
+  file: string;
+  /** Shader name, the key in {@link SHADERS_GLOBAL} (`main`) */
+  name: string;
+  stage: ShaderStage;
+  code: string;
+}
+
+/**
+ * The runtime's entry points, set on `window.__p5Addon`
+ */
+interface ShaderRuntime {
+  setShaders?: (files: ShaderFile[]) => void;
+  updateShader?: (file: ShaderFile) => number;
+}
+
+type ShaderRuntimeWindow = Window & { __p5Addon?: ShaderRuntime };
+
+/**
+ * Whether a fence language is GLSL
+ */
+export const isShaderLanguage = (lang: unknown): boolean =>
+  typeof lang === "string" && /^(glsl|vert|frag)$/i.test(lang);
+
+/**
+ * Read the shader name and stage from a fence's file name
+ *
+ * `main.vert` and `blur.frag` name their shader; `vert` and `frag` alone
+ * belong to the shader `main`. A `.glsl` file is a stage of `main`: the
+ * vertex shader when it sets `gl_Position`, else the fragment shader.
+ *
+ * @param file - File name of the fence
+ * @param code - Its source, used for `.glsl` files
+ * @returns The shader file, or null when the name is not a shader's
+ *
+ * @example
+ * toShaderFile("blur.frag", src); // { file: "blur.frag", name: "blur", stage: "frag", code: src }
+ */
+export const toShaderFile = (file: string, code: string): ShaderFile | null => {
+  const named = file.match(/^(?:(.+)\.)?(vert|frag)$/i);
+  if (named) return { file, name: named[1] ?? "main", stage: named[2].toLowerCase() as ShaderStage, code };
+  if (/\.glsl$/i.test(file)) return { file, name: "main", stage: /\bgl_Position\b/.test(code) ? "vert" : "frag", code };
+  return null;
+};
+
+/**
+ * Separate the shader files of a multi-file sketch from its program files
+ *
+ * @param files - Files of the sketch, in the order they are written
+ * @returns The files to join into the program, and the shader files
+ */
+export const splitShaderFiles = (files: SketchFile[]): { files: SketchFile[]; shaders: ShaderFile[] } => {
+  const program: SketchFile[] = [];
+  const shaders: ShaderFile[] = [];
+  for (const file of files) {
+    const shader = toShaderFile(file.name, file.code);
+    if (shader) shaders.push(shader);
+    else program.push(file);
+  }
+  return { files: program, shaders };
+};
+
+/**
+ * Expose shader sources to the next sketch run in a preview document
+ *
+ * Sets {@link SHADERS_GLOBAL} (an empty object when there are none) and
+ * forgets the shaders created by the previous run.
+ *
+ * @param win - Window of the preview document, before the sketch runs
+ * @param files - Shader files of the sketch
+ */
+export const exposeSketchShaders = (win: Window, files: ShaderFile[]): void => {
+  (win as ShaderRuntimeWindow).__p5Addon?.setShaders?.(files.map((f) => ({ ...f })));
+};
+
+/**
+ * Swap a shader file's new source into the running sketch
+ *
+ * @param win - Window of the preview document
+ * @param file - The edited shader file
+ * @returns Number of shaders of the sketch now using the new source, or
+ *   null when the document has no shader runtime
+ */
+export const updateSketchShader = (win: Window, file: ShaderFile): number | null => {
+  const runtime = (win as ShaderRuntimeWindow).__p5Addon;
+  return typeof runtime?.updateShader === "function" ? runtime.updateShader({ ...file }) : null;
+};
+
+/**
+ * Runtime installed in preview documents (see the module comment)
+ *
+ * Must run before p5 creates a global-mode instance, which binds
+ * `createShader` once; `setShaders()` is called before each sketch run.
+ */
+export const getShaderRuntimeScript = (): string => `
+(function() {
+  var addon = window.__p5Addon = window.__p5Addon || {};
+  var files = [];
+  var created = [];
+  var failed = false;
+  var sources = typeof WeakMap === 'function' ? new WeakMap() : null;
+  var shaderNameOf = function(vert, frag) {
+    for (var i = 0; i < files.length; i++) {
+      if (files[i].code === (files[i].stage === 'vert' ? vert : frag)) return files[i].name;
+    }
+    return null;
+  };
+  // Record the shaders created from the exposed sources
+  var trackShaders = function() {
+    var proto = window.p5 && window.p5.prototype;
+    if (!proto) return;
+    ['createShader', 'createFilterShader'].forEach(function(method) {
+      var create = proto[method];
+      if (typeof create !== 'function' || create.__p5AddonShaders) return;
+      proto[method] = function(vert, frag) {
+        var shader = create.apply(this, arguments);
+        var name = method === 'createFilterShader' ? shaderNameOf(null, vert) : shaderNameOf(vert, frag);
+        if (shader && name) created.push({ name: name, shader: shader });
+        return shader;
+      };
+      proto[method].__p5AddonShaders = true;
+    });
+  };
+  // Drop the compiled program; p5 compiles the sources again on next use
+  var resetShader = function(shader) {
+    try {
+      var gl = shader._renderer && shader._renderer.GL;
+      if (gl && shader._glProgram) gl.deleteProgram(shader._glProgram);
+    } catch (e) { /* recompiled either way */ }
+    shader._glProgram = 0;
+    shader._vertShader = -1;
+    shader._fragShader = -1;
+    shader._initialized = false;
+    shader._bound = false;
+    shader._loadedAttributes = false;
+    shader._loadedUniforms = false;
+    shader.attributes = {};
+    shader.uniforms = {};
+    shader.samplers = [];
+  };
+  // A compile error thrown in draw() ends p5's draw loop; restart it
+  var resumeDrawLoop = function() {
+    var instance = addon.instance || (window.p5 && window.p5.instance);
+    if (!instance || !instance._loop || !instance._setupDone || typeof instance._draw !== 'function') return;
+    window.cancelAnimationFrame(instance._requestAnimId);
+    instance._requestAnimId = window.requestAnimationFrame(instance._draw.bind(instance));
+  };
+  var excerpt = function(code, line) {
+    var text = code.split('\\n')[line - 1];
+    return text === undefined ? '' : '\\n> ' + String(line).padStart(3, ' ') + ' | ' + text;
+  };
+  // Compile log lines look like "ERROR: 0:12: 'colr' : undeclared identifier"
+  var describeCompileError = function(source, log) {
+    var file = null;
+    var offset = 0;
+    for (var i = 0; i < files.length && !file; i++) {
+      var at = files[i].code ? String(source).indexOf(files[i].code) : -1;
+      if (at !== -1) {
+        file = files[i];
+        offset = String(source).slice(0, at).split('\\n').length - 1;
+      }
+    }
+    var entries = [];
+    String(log || '').split('\\n').forEach(function(entry) {
+      var match = entry.match(/^\\s*(?:ERROR|WARNING):\\s*\\d+:(\\d+):\\s*(.*)$/);
+      if (!match || !file) return;
+      var line = Number(match[1]) - offset;
+      entries.push(file.file + ' line ' + line + ': ' + match[2].trim() + excerpt(file.code, line));
+    });
+    if (entries.length > 0) return 'GLSL compile error\\n' + entries.join('\\n');
+    return 'GLSL compile error' + (file ? ' in ' + file.file : '') + ':\\n' + String(log || '').trim();
+  };
+  var report = function(message) {
+    try {
+      var origin = addon.parentOrigin || window.location.origin;
+      window.parent.postMessage({ type: 'p5-error', sketchInstanceId: addon.sketchInstanceId, error: message }, origin);
+    } catch (e) { /* p5 reports the failure too */ }
+  };
+  [window.WebGLRenderingContext, window.WebGL2RenderingContext].forEach(function(Context) {
+    var proto = Context && Context.prototype;
+    if (!proto || !sources || proto.compileShader.__p5AddonShaders) return;
+    var shaderSource = proto.shaderSource;
+    var compileShader = proto.compileShader;
+    proto.shaderSource = function(shader, source) {
+      if (shader) sources.set(shader, source);
+      return shaderSource.apply(this, arguments);
+    };
+    proto.compileShader = function(shader) {
+      var result = compileShader.apply(this, arguments);
+      try {
+        if (shader && !this.getShaderParameter(shader, this.COMPILE_STATUS)) {
+          failed = true;
+          report(describeCompileError(sources.get(shader) || '', this.getShaderInfoLog(shader)));
+        }
+      } catch (e) { /* keep p5's own handling */ }
+      return result;
+    };
+    proto.compileShader.__p5AddonShaders = true;
+  });
+  addon.setShaders = function(list) {
+    files = list || [];
+    created = [];
+    failed = false;
+    var shaders = {};
+    files.forEach(function(f) {
+      shaders[f.name] = shaders[f.name] || {};
+      shaders[f.name][f.stage] = f.code;
+    });
+    window.${SHADERS_GLOBAL} = shaders;
+    trackShaders();
+  };
+  addon.updateShader = function(file) {
+    var key = file.stage === 'vert' ? '_vertSrc' : '_fragSrc';
+    var previous = null;
+    var known = false;
+    files.forEach(function(f) {
+      if (f.name !== file.name || f.stage !== file.stage) return;
+      previous = f.code;
+      f.code = file.code;
+      known = true;
+    });
+    if (!known) files.push(file);
+    var shaders = window.${SHADERS_GLOBAL} = window.${SHADERS_GLOBAL} || {};
+    shaders[file.name] = shaders[file.name] || {};
+    shaders[file.name][file.stage] = file.code;
+    var count = 0;
+    created.forEach(function(entry) {
+      if (entry.name !== file.name || entry.shader[key] !== previous) return;
+      entry.shader[key] = file.code;
+      resetShader(entry.shader);
+      count++;
+    });
+    if (count > 0 && failed) {
+      failed = false;
+      resumeDrawLoop();
+    }
+    return count;
+  };
+})();
+`;
@@ -116,6 +116,15 @@ export class StopButtonController {
     this.inserted = true;
   }
 
+  /**
+   * Remove the stop button for good (it is not inserted again), e.g. when
+   * a newer run replaces this one
+   */
+  remove(): void {
+    safeRemoveElement(this.button);
+    this.inserted = true;
+  }
+
   /**
    * Get the stop button element
    *
@@ -0,0 +1,231 @@
+/**
+ * Transpile Service - Off-main-thread, cached sketch transpiling
+ *
+ * Parsing and regenerating a sketch (acorn, astring, the migration pass and
+ * the loop guard) is the heaviest step of a Run. Doing it on the UI thread
+ * for every Run, re-render and slide revisit makes slide transitions janky in
+ * decks with many sketches, so:
+ * - transpiling runs in a Web Worker (`setup/transpile-worker.ts`), falling
+ *   back to the main thread where workers are unavailable (SSR, tests) or the
+ *   worker fails to start,
+ * - results are cached by a hash of the code, the target p5 version and the
+ *   other transpile options, so unchanged sketches do no transpile work at all.
+ *
+ * Deciding whether a code block is a p5 sketch at all (`isP5Sketch()`) parses
+ * it too, so it goes through the same worker and cache.
+ */
+import type { TranspileResult } from "../types";
+import { FALLBACK_P5_API_TABLES } from "./p5-api-tables";
+import type { P5ApiTables } from "./p5-api-tables";
+import { isP5Sketch, transpileSketch } from "./p5-transpile";
+import type { TranspileOptions } from "./p5-transpile";
+
+/**
+ * Work done by the transpile worker: `transpileSketch()` or `isP5Sketch()`
+ */
+export type TranspileTask = "transpile" | "detect";
+
+/**
+ * Message sent to the transpile worker
+ */
+export interface TranspileWorkerRequest {
+  id: number;
+  task: TranspileTask;
+  code: string;
+  options: TranspileOptions;
+}
+
+/**
+ * Answer of the transpile worker: the result of the task, or the message of
+ * an unexpected transpiler exception
+ */
+export type TranspileWorkerResponse =
+  | { id: number; result: TranspileResult | boolean; error?: undefined }
+  | { id: number; error: string; result?: undefined };
+
+/**
+ * Number of transpile results kept; the least recently used is dropped first
+ */
+export const TRANSPILE_CACHE_SIZE = 100;
+
+interface PendingRequest {
+  task: TranspileTask;
+  code: string;
+  options: TranspileOptions;
+  resolve: (result: TranspileResult | boolean) => void;
+  reject: (error: Error) => void;
+}
+
+const cache = new Map<string, Promise<TranspileResult | boolean>>();
+const tablesKeys = new WeakMap<P5ApiTables, string>();
+const pending = new Map<number, PendingRequest>();
+/** The worker; undefined until first use, null when unavailable */
+let worker: Worker | null | undefined;
+let nextRequestId = 1;
+
+/**
+ * 53-bit string hash (cyrb53), as hex
+ */
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+/**
+ * Cache key of a transpile request
+ *
+ * Besides the code and the p5 version, the key covers every option that
+ * changes the output, including the API tables (hashed once per tables
+ * object), which differ when add-on libraries extend p5.
+ *
+ * @param code - Sketch source
+ * @param options - Transpile options
+ *
+ * @example
+ * transpileCacheKey("function setup() {}", { p5Version: "2.2.0" });
+ * // "<code hash>:2.2.0:js::::<tables hash>"
+ */
+export const transpileCacheKey = (code: string, options: TranspileOptions = {}): string => {
+  const tables = options.apiTables ?? FALLBACK_P5_API_TABLES;
+  let tablesKey = tablesKeys.get(tables);
+  if (!tablesKey) {
+    tablesKey = hashString(`${tables.functions.join(",")}|${tables.constants.join(",")}`);
+    tablesKeys.set(tables, tablesKey);
+  }
+  return [
+    hashString(code),
+    options.p5Version ?? "",
+    options.typescript ? "ts" : "js",
+    options.loopGuard ? "guard" : "",
+    options.lint ? JSON.stringify(options.lint) : "",
+    options.sourceName ?? "",
+    tablesKey,
+  ].join(":");
+};
+
+const runOnMainThread = (task: TranspileTask, code: string, options: TranspileOptions): Promise<TranspileResult | boolean> =>
+  new Promise((resolve) => resolve(task === "detect" ? isP5Sketch(code, options) : transpileSketch(code, options)));
+
+const handleWorkerMessage = (event: MessageEvent<TranspileWorkerResponse>): void => {
+  const request = pending.get(event.data.id);
+  if (!request) return;
+  pending.delete(event.data.id);
+  if (event.data.error === undefined) {
+    request.resolve(event.data.result);
+  } else {
+    request.reject(new Error(event.data.error));
+  }
+};
+
+// The worker script failed to load or crashed: finish on the main thread
+const handleWorkerFailure = (): void => {
+  worker?.terminate();
+  worker = null;
+  const requests = [...pending.values()];
+  pending.clear();
+  for (const request of requests) {
+    runOnMainThread(request.task, request.code, request.options).then(request.resolve, request.reject);
+  }
+};
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    worker = typeof Worker === "undefined"
+      ? null
+      : new Worker(new URL("./transpile-worker.ts", import.meta.url), { type: "module" });
+  } catch (e) {
+    worker = null;
+  }
+  worker?.addEventListener("message", handleWorkerMessage);
+  worker?.addEventListener("error", handleWorkerFailure);
+  return worker;
+};
+
+const runInWorker = (task: TranspileTask, code: string, options: TranspileOptions): Promise<TranspileResult | boolean> => {
+  const target = getWorker();
+  if (!target) return runOnMainThread(task, code, options);
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { task, code, options, resolve, reject });
+    try {
+      target.postMessage({ id, task, code, options } satisfies TranspileWorkerRequest);
+    } catch (e) {
+      // Options that cannot be cloned are handled here instead
+      pending.delete(id);
+      runOnMainThread(task, code, options).then(resolve, reject);
+    }
+  });
+};
+
+const runCached = (key: string, task: TranspileTask, code: string, options: TranspileOptions): Promise<TranspileResult | boolean> => {
+  const cached = cache.get(key);
+  if (cached) {
+    // Move to the back, so the least recently used entry is dropped first
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+  const result = runInWorker(task, code, options);
+  cache.set(key, result);
+  if (cache.size > TRANSPILE_CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+  // Failures are not cached, so the next Run tries again
+  result.catch(() => {
+    if (cache.get(key) === result) cache.delete(key);
+  });
+  return result;
+};
+
+/**
+ * Transpile a sketch in the transpile worker, reusing cached results
+ *
+ * Same input and output as `transpileSketch()` (see `setup/p5-transpile.ts`).
+ * Identical requests, including ones still in flight, share one result
+ * object, so callers must treat it as read-only.
+ *
+ * @param code - Sketch source
+ * @param options - Transpile options
+ * @returns The transpile result
+ *
+ * @example
+ * const result = await transpileSketchAsync(code, { p5Version: "2.2.0", loopGuard: true });
+ */
+export const transpileSketchAsync = (code: string, options: TranspileOptions = {}): Promise<TranspileResult> =>
+  runCached(transpileCacheKey(code, options), "transpile", code, options) as Promise<TranspileResult>;
+
+/**
+ * Decide in the transpile worker whether code is a p5 sketch, reusing
+ * cached answers
+ *
+ * Same input and output as `isP5Sketch()` (see `setup/p5-transpile.ts`).
+ *
+ * @param code - Code of the block
+ * @param options - Whether it is TypeScript, and the p5 API of the target
+ *   runtime (add-on libraries such as p5.sound add functions)
+ * @returns Whether the code is a p5 sketch
+ *
+ * @example
+ * const looksLikeP5 = await detectP5SketchAsync(code, { apiTables: resolveP5ApiTables(win) });
+ */
+export const detectP5SketchAsync = (
+  code: string,
+  options: Pick<TranspileOptions, "apiTables" | "typescript"> = {}
+): Promise<boolean> => {
+  const detectOptions = { apiTables: options.apiTables, typescript: options.typescript };
+  return runCached(`detect:${transpileCacheKey(code, detectOptions)}`, "detect", code, detectOptions) as Promise<boolean>;
+};
+
+/**
+ * Forget all cached transpile results and detections (tests and hot reload)
+ */
+export const clearTranspileCache = (): void => {
+  cache.clear();
+};
@@ -0,0 +1,21 @@
+/**
+ * Transpile Worker - Runs `transpileSketch()` and `isP5Sketch()` off the main thread
+ *
+ * Started by `setup/transpile-service.ts`; each request is answered with the
+ * same `id`.
+ */
+import { isP5Sketch, transpileSketch } from "./p5-transpile";
+import type { TranspileWorkerRequest, TranspileWorkerResponse } from "./transpile-service";
+
+const post = (response: TranspileWorkerResponse): void => {
+  (self as unknown as Worker).postMessage(response);
+};
+
+self.addEventListener("message", (event: MessageEvent<TranspileWorkerRequest>) => {
+  const { id, task, code, options } = event.data;
+  try {
+    post({ id, result: task === "detect" ? isP5Sketch(code, options) : transpileSketch(code, options) });
+  } catch (error) {
+    post({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
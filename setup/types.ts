@@ -2,6 +2,7 @@
  * Type definitions for p5 addon globals
  * Provides TypeScript interfaces for window.__p5Addon namespace
  */
+import type { ConsoleEntry } from "./console-output";
 
 /**
  * Global namespace for p5 addon functionality
@@ -10,6 +11,9 @@
 export interface P5AddonGlobals {
   // Console and logging
   appendLog?: (msg: string) => void;
+  // Structured console entries (see setup/console-output.ts); preferred over appendLog
+  appendEntry?: (entry: ConsoleEntry) => void;
+  originalConsole?: Partial<Record<string, (...args: unknown[]) => void>>;
   logs?: string[];
   originalLog?: typeof console.log;
   originalError?: typeof console.error;
@@ -19,8 +23,23 @@ export interface P5AddonGlobals {
   insertStopButton?: (btn: HTMLElement) => void;
   sourcePlayButton?: HTMLElement | null;
 
+  // Run sequencing: token id of the latest run, checked by its sketch script (see setup/run-token.ts)
+  runToken?: number;
+
+  // p5 runtime: script URL the iframe loaded p5 from (API table cache key)
+  p5ScriptUrl?: string;
+
+  // Sketch imports: module URLs by specifier (see setup/sketch-imports.ts)
+  importMap?: Record<string, string>;
+
+  // Messaging: origin of the slide window, target of postMessage from the iframe
+  parentOrigin?: string;
+
   // Lifecycle callbacks
   onReady?: () => void;
+
+  // Error reporting: removes the runtime error listener of the previous run
+  detachErrorListener?: () => void;
 }
 
 /**
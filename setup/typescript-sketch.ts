@@ -0,0 +1,109 @@
+/**
+ * TypeScript Sketches - Strips type syntax before the instance-mode transform
+ *
+ * ` ```ts ` fences inside `<P5Code>` / `<P5Canvas>` run as p5 sketches:
+ * - types, interfaces, `as` casts and `!` assertions are removed in the
+ *   browser with sucrase (enums and parameter properties are compiled),
+ * - line numbers are preserved and a source map records the columns, so
+ *   diagnostics and runtime errors still point at the TypeScript source.
+ *
+ * No type checking happens; the result is plain JavaScript for the
+ * transpiler in `setup/p5-transpile.ts`.
+ */
+import { transform } from "sucrase";
+import type { RawSourceMap } from "source-map-js";
+import type { TranspileDiagnostic } from "../types";
+
+/**
+ * Fence languages treated as TypeScript
+ */
+export const TYPESCRIPT_LANGUAGES = ["ts", "typescript"];
+
+/**
+ * Name of TypeScript sketch sources in source maps
+ */
+export const TS_SKETCH_SOURCE_NAME = "sketch.ts";
+
+/**
+ * Result of stripping type syntax from a sketch
+ */
+export interface StrippedSketch {
+  /** JavaScript, with the same line numbers; null when the source does not parse */
+  code: string | null;
+  /** Source map from `code` back to the TypeScript source */
+  map: RawSourceMap | null;
+  /** Syntax errors found while stripping */
+  diagnostics: TranspileDiagnostic[];
+}
+
+/**
+ * Whether a fence language (` ```ts `, ` ```typescript `) is TypeScript
+ *
+ * @example
+ * isTypeScriptLanguage("ts"); // true
+ * isTypeScriptLanguage("js"); // false
+ */
+export const isTypeScriptLanguage = (lang?: string | null): boolean =>
+  !!lang && TYPESCRIPT_LANGUAGES.includes(lang.trim().toLowerCase());
+
+/**
+ * 1-based line and column of an index in `code`
+ */
+const positionAt = (code: string, index: number): { line: number; column: number } => {
+  const before = code.slice(0, Math.max(0, index));
+  const lines = before.split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+/**
+ * Remove TypeScript type syntax from a sketch
+ *
+ * @param code - TypeScript sketch source
+ * @param sourceName - Source name recorded in the source map
+ * @returns JavaScript with a source map, or a syntax-error diagnostic
+ *
+ * @example
+ * const { code } = stripTypeAnnotations("let size: number = 10;");
+ * // code: "let size = 10;"
+ */
+export const stripTypeAnnotations = (
+  code: string,
+  sourceName: string = TS_SKETCH_SOURCE_NAME
+): StrippedSketch => {
+  try {
+    const result = transform(code, {
+      transforms: ["typescript"],
+      // Keep modern syntax as written; the sketch parser accepts it
+      disableESTransforms: true,
+      keepUnusedImports: true,
+      filePath: sourceName,
+      sourceMapOptions: { compiledFilename: sourceName.replace(/\.ts$/, ".js") },
+    });
+    const map = result.sourceMap as unknown as RawSourceMap;
+    return { code: result.code, map: { ...map, sources: [sourceName] }, diagnostics: [] };
+  } catch (error) {
+    const err = error as { message?: unknown; pos?: unknown } | null;
+    const message =
+      typeof err?.message === "string"
+        ? err.message.replace(/^Error transforming [^:]*: /, "").replace(/\s*\(\d+:\d+\)$/, "")
+        : String(error);
+    const start = positionAt(code, typeof err?.pos === "number" ? err.pos : 0);
+    return {
+      code: null,
+      map: null,
+      diagnostics: [
+        {
+          severity: "error",
+          message,
+          range: {
+            startLine: start.line,
+            startColumn: start.column,
+            endLine: start.line,
+            endColumn: start.column + 1,
+          },
+          ruleId: "syntax-error",
+        },
+      ],
+    };
+  }
+};
@@ -0,0 +1,9 @@
+import { defineVitePluginsSetup } from '@slidev/types'
+import { sketchModulesPlugin } from './sketch-modules-plugin'
+
+export default defineVitePluginsSetup((options) => {
+  return [
+    // Modules imported by sketches, built with the deck
+    sketchModulesPlugin(options),
+  ]
+})
@@ -18,3 +18,52 @@ describe('formatErrorWithLineMapping', () => {
     expect(out.length).toBeGreaterThan(0)
   })
 })
+
+describe('buildSketchScript', () => {
+  const run = (script: string) => {
+    class FakeP5 {
+      static instance?: FakeP5
+      node: unknown
+      constructor(sketch: (p: FakeP5) => void, node?: unknown) {
+        this.node = node
+        sketch(this)
+      }
+    }
+    const fakeConsole = { log() {}, error() {}, warn() {} }
+    const win: Record<string, unknown> = { p5: FakeP5, console: fakeConsole, __p5Addon: {} }
+    const doc = { getElementById: (id: string) => ({ id }) }
+    new Function('window', 'document', script)(win, doc)
+    return { win, FakeP5 }
+  }
+
+  it('runs instance-mode sketches as written and registers the instance', () => {
+    const code = `const sketch = (s) => { s.ran = true; };\nconst created = new window.p5(sketch);`
+    const { script, preambleLines } = runners.buildSketchScript(code, 'instance')
+    expect(script.split('\n')[preambleLines]).toBe('const sketch = (s) => { s.ran = true; };')
+    const { win, FakeP5 } = run(script)
+    expect(win.p5).toBe(FakeP5)
+    expect(FakeP5.instance).toMatchObject({ ran: true, node: { id: 'p5-container' } })
+  })
+
+  it('restores window.p5 when an instance-mode sketch throws', () => {
+    const { script } = runners.buildSketchScript(`throw new Error('boom')`, 'instance')
+    class FakeP5 {}
+    const win: Record<string, unknown> = { p5: FakeP5, console: { log() {}, error() {}, warn() {} }, __p5Addon: {} }
+    expect(() => new Function('window', 'document', script)(win, {})).toThrow('boom')
+    expect(win.p5).toBe(FakeP5)
+  })
+
+  it('wraps global-mode code in a p5 instance', () => {
+    const { script } = runners.buildSketchScript(`_p.ran = true;`)
+    const { FakeP5 } = run(script)
+    expect(FakeP5.instance).toMatchObject({ ran: true, node: 'p5-container' })
+  })
+
+  it('puts the imports of a sketch before the wrapper', () => {
+    const header = 'import * as __p5Module0 from "simplex-noise";\nconst __p5Modules = { "simplex-noise": __p5Module0 };\n'
+    const code = 'const { createNoise2D: _createNoise2D } = __p5Modules["simplex-noise"];'
+    const { script, preambleLines } = runners.buildSketchScript(code, 'global', '', header)
+    expect(script.startsWith(header)).toBe(true)
+    expect(script.split('\n')[preambleLines]).toBe(code)
+  })
+})
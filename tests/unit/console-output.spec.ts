@@ -0,0 +1,223 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, onTestFinished } from 'vitest'
+import { getConsoleWrapperScript } from '../../setup/console-wrapper'
+import { ConsoleOutput } from '../../setup/console-output'
+import type { ConsoleEntry } from '../../setup/console-output'
+
+class Vector {
+  constructor(public x: number, public y: number, public z = 0) {}
+}
+
+const wrapConsole = () => {
+  const entries: ConsoleEntry[] = []
+  const original = { log: vi.fn(), error: vi.fn(), warn: vi.fn(), info: vi.fn(), clear: vi.fn() }
+  const win = {
+    p5: Object.assign(function p5() {}, { Vector }),
+    console: { ...original },
+    __p5Addon: { logs: [] as string[], appendEntry: (entry: ConsoleEntry) => entries.push(entry) },
+  }
+  new Function('window', getConsoleWrapperScript())(win)
+  return { console: win.console as unknown as Console, entries, original, logs: win.__p5Addon.logs }
+}
+
+const open = (details: Element | null) => {
+  (details as HTMLDetailsElement).open = true
+  details?.dispatchEvent(new Event('toggle'))
+  return details as HTMLDetailsElement
+}
+
+describe('console wrapper', () => {
+  it('sends structured entries and keeps the browser console', () => {
+    const { console, entries, original, logs } = wrapConsole()
+    console.info('ready', 3)
+    expect(entries[0]).toEqual({
+      kind: 'message',
+      level: 'info',
+      args: [{ kind: 'string', preview: 'ready' }, { kind: 'number', preview: '3' }],
+    })
+    expect(original.info).toHaveBeenCalledWith('ready', 3)
+    expect(logs).toEqual(['ready 3'])
+  })
+
+  it('serializes circular objects, maps and p5.Vectors', () => {
+    const { console, entries } = wrapConsole()
+    const particle: Record<string, unknown> = { pos: new Vector(1, 2.5), tags: new Map([['a', 1]]) }
+    particle.self = particle
+    console.log(particle)
+    const [value] = entries[0].args
+    expect(value.preview).toBe('{pos: p5.Vector(1, 2.5, 0), tags: Map(1), self: [Circular]}')
+    expect(value.entries?.map((e) => [e.key, e.value.preview])).toEqual([
+      ['pos', 'p5.Vector(1, 2.5, 0)'],
+      ['tags', 'Map(1) {"a" => 1}'],
+      ['self', '[Circular]'],
+    ])
+  })
+
+  it('builds tables from arrays of objects', () => {
+    const { console, entries } = wrapConsole()
+    console.table([{ x: 1, y: 2 }, { x: 3, z: 'a' }, 7])
+    expect(entries[0].table?.columns).toEqual(['x', 'y', 'z', 'Value'])
+    expect(entries[0].table?.rows[1]).toEqual({
+      key: '1',
+      cells: { x: { kind: 'number', preview: '3' }, z: { kind: 'string', preview: 'a' } },
+    })
+  })
+
+  it('supports counters, timers, assertions, groups and clear', () => {
+    const { console, entries, logs } = wrapConsole()
+    console.count()
+    console.count()
+    console.count('hits')
+    console.timeEnd('missing')
+    console.assert(1 > 2, 'math is broken')
+    console.assert(true, 'never shown')
+    console.groupCollapsed('setup')
+    console.groupEnd()
+    const texts = entries.filter((e) => e.kind === 'message').map((e) => `${e.level} ${e.args[0].preview}`)
+    expect(texts).toEqual([
+      'info default: 1',
+      'info default: 2',
+      'info hits: 1',
+      "warn Timer 'missing' does not exist",
+      'error Assertion failed: math is broken',
+    ])
+    expect(entries.slice(-2).map((e) => [e.kind, e.collapsed])).toEqual([['group', true], ['groupEnd', undefined]])
+    console.clear()
+    expect(entries[entries.length - 1].kind).toBe('clear')
+    expect(logs).toEqual([])
+  })
+
+  it('measures time between time and timeEnd', () => {
+    const { console, entries } = wrapConsole()
+    console.time('frame')
+    console.timeEnd('frame')
+    expect(entries[0].args[0].preview).toMatch(/^frame: \d+\.\d{3} ms$/)
+  })
+})
+
+describe('ConsoleOutput', () => {
+  it('color-codes lines by level', () => {
+    const output = new ConsoleOutput()
+    output.appendText('Warning at line 2', 'warn')
+    output.append({ kind: 'message', level: 'error', args: [{ kind: 'string', preview: 'boom' }] })
+    output.flush()
+    const lines = Array.from(output.element.children) as HTMLElement[]
+    expect(lines.map((line) => [line.dataset.level, line.textContent])).toEqual([['warn', 'Warning at line 2'], ['error', 'boom']])
+    expect(lines[1].style.color).not.toBe('')
+  })
+
+  it('renders objects as trees built when opened', () => {
+    const { console, entries } = wrapConsole()
+    console.log('state', { list: [1, 'two'], v: new Vector(0, 1) })
+    const output = new ConsoleOutput()
+    output.append(entries[0])
+    output.flush()
+    const tree = output.element.querySelector('details')
+    expect(tree?.querySelector('summary')?.textContent).toBe('{list: Array(2), v: p5.Vector(0, 1, 0)}')
+    expect(tree?.querySelectorAll('div')).toHaveLength(0)
+    open(tree)
+    const rows = Array.from(tree!.children[1].children).map((row) => row.textContent)
+    expect(rows).toEqual(['list: [1, "two"]', 'v: p5.Vector(0, 1, 0)'])
+    open(tree!.querySelector('details'))
+    expect(tree!.textContent).toContain('1: "two"')
+  })
+
+  it('nests grouped lines and renders tables', () => {
+    const { console, entries } = wrapConsole()
+    console.group('particles')
+    console.table({ a: { x: 1 } })
+    console.groupEnd()
+    console.log('after')
+    const output = new ConsoleOutput()
+    entries.forEach((entry) => output.append(entry))
+    output.flush()
+    const group = output.element.querySelector('details') as HTMLDetailsElement
+    expect(group.open).toBe(true)
+    expect(group.querySelector('table')?.textContent).toBe('(index)xa1')
+    expect(output.element.lastElementChild?.textContent).toBe('after')
+  })
+
+  it('clears previous output', () => {
+    const output = new ConsoleOutput()
+    output.appendText('old')
+    output.append({ kind: 'group', level: 'log', args: [{ kind: 'string', preview: 'g' }] })
+    output.flush()
+    output.append({ kind: 'clear', level: 'log', args: [] })
+    output.appendText('new')
+    output.flush()
+    expect(Array.from(output.element.children).map((line) => line.textContent)).toEqual(['Console was cleared', 'new'])
+  })
+
+  it('renders once per animation frame', () => {
+    const frames: FrameRequestCallback[] = []
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => frames.push(callback))
+    onTestFinished(() => { vi.unstubAllGlobals() })
+    const output = new ConsoleOutput()
+    output.appendText('a')
+    output.appendText('b')
+    expect(output.element.children).toHaveLength(0)
+    expect(frames).toHaveLength(1)
+    frames[0](0)
+    expect(output.element.textContent).toBe('ab')
+  })
+
+  it('collapses identical consecutive messages into one line with a counter', () => {
+    const { console, entries } = wrapConsole()
+    const output = new ConsoleOutput()
+    for (let frame = 0; frame < 3; frame++) console.log('mouseX', 42)
+    entries.forEach((entry) => output.append(entry))
+    output.flush()
+    console.log('mouseX', 42)
+    console.log('mouseX', 43)
+    entries.slice(3).forEach((entry) => output.append(entry))
+    output.flush()
+    const lines = Array.from(output.element.children)
+    expect(lines.map((line) => line.textContent)).toEqual(['4mouseX 42', 'mouseX 43'])
+    expect(lines[0].querySelector('.p5-console-repeat')?.textContent).toBe('4')
+  })
+
+  it('keeps the last lines and says how many were dropped', () => {
+    const output = new ConsoleOutput(3)
+    for (let i = 0; i < 5; i++) output.appendText(`line ${i}`)
+    output.flush()
+    output.appendText('line 5')
+    output.flush()
+    expect(Array.from(output.element.children).map((line) => line.textContent)).toEqual([
+      '… 3 older lines were dropped',
+      'line 3',
+      'line 4',
+      'line 5',
+    ])
+  })
+
+  it('keeps the group being logged into when dropping lines', () => {
+    const output = new ConsoleOutput(2)
+    output.append({ kind: 'group', level: 'log', args: [{ kind: 'string', preview: 'frame' }] })
+    for (let i = 0; i < 4; i++) output.appendText(`line ${i}`)
+    output.flush()
+    const group = output.element.querySelector('details')
+    expect(group?.textContent).toBe('frameline 3')
+  })
+
+  it('drops the nested lines of a dropped group with it', () => {
+    const output = new ConsoleOutput(5)
+    const group = (preview: string): ConsoleEntry => ({ kind: 'group', level: 'log', args: [{ kind: 'string', preview }] })
+    const groupEnd: ConsoleEntry = { kind: 'groupEnd', level: 'log', args: [] }
+    for (let i = 0; i < 3; i++) {
+      output.append(group(`frame ${i}`))
+      output.append(group('step'))
+      output.appendText(`x ${i}`)
+      output.append(groupEnd)
+      output.append(groupEnd)
+      output.flush()
+    }
+    for (let i = 1; i <= 3; i++) output.appendText(`done ${i}`)
+    output.flush()
+    expect(Array.from(output.element.children).map((line) => line.textContent)).toEqual([
+      '… 9 older lines were dropped',
+      'done 1',
+      'done 2',
+      'done 3',
+    ])
+  })
+})
@@ -0,0 +1,69 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest'
+import { SKETCH_ID_ATTRIBUTE, publishConsoleEntry, resetConsoleStream, subscribeConsoleStream } from '../../setup/console-stream'
+import type { ConsoleStreamEvent } from '../../setup/console-stream'
+import { CONSOLE_MAX_LINES, ConsoleOutput, textEntry } from '../../setup/console-output'
+import { bindRunTarget, resolveRunTarget } from '../../setup/run-target'
+
+describe('console stream', () => {
+  it('delivers the entries of a sketch to its subscribers only', () => {
+    const ball = vi.fn()
+    const other = vi.fn()
+    const stop = subscribeConsoleStream('ball', ball)
+    subscribeConsoleStream('other', other)
+    publishConsoleEntry('ball', textEntry('x: 10'))
+    expect(ball).toHaveBeenCalledWith({ type: 'entry', entry: textEntry('x: 10') })
+    expect(other).not.toHaveBeenCalled()
+    stop()
+    publishConsoleEntry('ball', textEntry('x: 11'))
+    expect(ball).toHaveBeenCalledTimes(1)
+  })
+
+  it('replays the kept entries to a console mounted later', () => {
+    publishConsoleEntry('late', textEntry('old run'))
+    resetConsoleStream('late')
+    publishConsoleEntry('late', textEntry('setup done', 'info'))
+    const listener = vi.fn()
+    subscribeConsoleStream('late', listener)
+    expect(listener.mock.calls).toEqual([[{ type: 'entry', entry: textEntry('setup done', 'info') }]])
+  })
+
+  it('tells a console mounted later how many older entries were dropped', () => {
+    for (let i = 0; i < CONSOLE_MAX_LINES + 3; i++) publishConsoleEntry('chatty', textEntry(`frame ${i}`))
+    const output = new ConsoleOutput()
+    const listener = vi.fn((event: ConsoleStreamEvent) => {
+      if (event.type === 'dropped') output.addDropped(event.count)
+      else if (event.type === 'entry') output.append(event.entry)
+    })
+    subscribeConsoleStream('chatty', listener)
+    expect(listener.mock.calls[0]).toEqual([{ type: 'dropped', count: 3 }])
+    expect(listener).toHaveBeenCalledTimes(CONSOLE_MAX_LINES + 1)
+    output.flush()
+    expect(output.element.firstElementChild?.textContent).toBe('… 3 older lines were dropped')
+    expect(output.element.children[1].textContent).toBe('frame 3')
+  })
+
+  it('forgets dropped entries when the console is cleared', () => {
+    for (let i = 0; i < CONSOLE_MAX_LINES + 1; i++) publishConsoleEntry('cleared', textEntry(`frame ${i}`))
+    publishConsoleEntry('cleared', { kind: 'clear', level: 'log', args: [] })
+    const listener = vi.fn()
+    subscribeConsoleStream('cleared', listener)
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['entry'])
+  })
+
+  it('clears consoles when a new run starts', () => {
+    const listener = vi.fn()
+    subscribeConsoleStream('rerun', listener)
+    resetConsoleStream('rerun')
+    expect(listener).toHaveBeenCalledWith({ type: 'reset' })
+  })
+
+  it('names the author id of a <P5Code> in its run target', () => {
+    const wrapper = document.createElement('div')
+    wrapper.innerHTML = `<div data-p5code-id="s-1" ${SKETCH_ID_ATTRIBUTE}="ball"></div><iframe data-p5code-id="s-1"></iframe>`
+    document.body.appendChild(wrapper)
+    const resolved = resolveRunTarget({ options: bindRunTarget('s-1') })
+    expect('target' in resolved && resolved.target.sketchId).toBe('ball')
+    wrapper.remove()
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { ErrorLineMapper } from '../../setup/error-line-mapper'
+import { transpileSketch } from '../../setup/p5-transpile'
+import { buildSketchScript } from '../../setup/code-runners'
+import { combineSketchFiles } from '../../setup/sketch-files'
+
+const source = `let x = 0;
+
+function setup() {
+  createCanvas(100, 100);
+}
+
+function draw() {
+  background(220);
+  x += foo.bar;
+}`
+
+const positionOf = (script: string, needle: string) => {
+  const lines = script.split('\n')
+  const index = lines.findIndex((line) => line.includes(needle))
+  return { line: index + 1, column: lines[index].indexOf(needle) + 1 }
+}
+
+describe('ErrorLineMapper with source maps', () => {
+  it('maps script positions through the preamble and source map', () => {
+    const output = transpileSketch(source)
+    const { script, preambleLines } = buildSketchScript(output.code!)
+    const mapper = new ErrorLineMapper(source, output.code!, preambleLines, { sourceMap: output.map })
+    const at = positionOf(script, 'foo.bar')
+    expect(mapper.mapPosition(at.line, at.column)).toEqual({ line: 9, column: 8 })
+    const canvas = positionOf(script, '_p.createCanvas')
+    expect(mapper.mapPosition(canvas.line, canvas.column)?.line).toBe(4)
+  })
+
+  it('ignores positions inside the preamble', () => {
+    const output = transpileSketch(source)
+    const { preambleLines } = buildSketchScript(output.code!)
+    const mapper = new ErrorLineMapper(source, output.code!, preambleLines, { sourceMap: output.map })
+    expect(mapper.mapPosition(preambleLines, 1)).toBeNull()
+  })
+
+  it('rewrites sketch stack frames and leaves other scripts alone', () => {
+    const output = transpileSketch(source)
+    const { script, preambleLines } = buildSketchScript(output.code!)
+    const url = 'blob:http://localhost:3030/0f1e'
+    const mapper = new ErrorLineMapper(source, output.code!, preambleLines, { sourceMap: output.map, scriptUrl: url })
+    const at = positionOf(script, 'foo.bar')
+    const stack = [
+      `ReferenceError: foo is not defined`,
+      `    at _p.draw (${url}:${at.line}:${at.column})`,
+      `    at p5._draw (https://cdn.jsdelivr.net/npm/p5@2.2.0/lib/p5.min.js:1:4242)`,
+    ].join('\n')
+    const out = mapper.formatErrorWithContext(stack)
+    expect(out).toContain('at _p.draw (sketch:9:8)')
+    expect(out).toContain('p5.min.js:1:4242')
+    expect(out).toContain('>   9 |   x += foo.bar;')
+    expect(mapper.locateInStack(stack)).toEqual({ line: 9, column: 8 })
+  })
+
+  it('leaves line numbers in the message text alone', () => {
+    const output = transpileSketch(source)
+    const { script, preambleLines } = buildSketchScript(output.code!)
+    const url = 'blob:http://localhost:3030/0f1e'
+    const mapper = new ErrorLineMapper(source, output.code!, preambleLines, { sourceMap: output.map, scriptUrl: url })
+    const at = positionOf(script, 'foo.bar')
+    const stack = `Error: Loop at line 5 ran more than 100000 iterations in one frame\n    at _p.draw (${url}:${at.line}:${at.column})`
+    const out = mapper.mapErrorMessage(stack)
+    expect(out).toContain('Loop at line 5 ran')
+    expect(out).toContain('at _p.draw (sketch:9:8)')
+  })
+})
+
+describe('ErrorLineMapper with TypeScript sketches', () => {
+  it('maps runtime positions back to the TypeScript source', () => {
+    const tsSource = `type Pos = { x: number };\nlet p: Pos = { x: 1 };\nfunction draw(): void {\n  const n: number = (p as Pos).x + foo.bar;\n}`
+    const output = transpileSketch(tsSource, { typescript: true })
+    const { script, preambleLines } = buildSketchScript(output.code!)
+    const mapper = new ErrorLineMapper(tsSource, output.code!, preambleLines, { sourceMap: output.map })
+    const at = positionOf(script, 'foo.bar')
+    expect(mapper.mapPosition(at.line, at.column)).toEqual({ line: 4, column: 36 })
+  })
+})
+
+describe('ErrorLineMapper with multi-file sketches', () => {
+  it('reports positions in the file they belong to', () => {
+    const combined = combineSketchFiles([
+      { name: 'Particle.js', code: 'class Particle {\n  update() {\n    this.x += foo.bar;\n  }\n}' },
+      { name: 'sketch.js', code: 'let p;\nfunction setup() {\n  p = new Particle();\n}\nfunction draw() {\n  p.update();\n}' },
+    ])
+    const output = transpileSketch(combined.code)
+    const { script, preambleLines } = buildSketchScript(output.code!)
+    const url = 'blob:http://localhost:3030/0f1e'
+    const mapper = new ErrorLineMapper(combined.code, output.code!, preambleLines, {
+      sourceMap: output.map,
+      scriptUrl: url,
+      files: combined.files,
+    })
+    const at = positionOf(script, 'foo.bar')
+    const stack = `ReferenceError: foo is not defined\n    at Particle.update (${url}:${at.line}:${at.column})`
+    const position = mapper.locateInStack(stack)!
+    expect(mapper.describePosition(position)).toBe('Particle.js line 3, column 15')
+    expect(mapper.mapErrorMessage(stack)).toContain('at Particle.update (Particle.js:3:15)')
+    const excerpt = mapper.formatSourceContext(position)
+    expect(excerpt.split('\n')[0]).toBe('  Particle.js')
+    expect(excerpt).toContain('>   3 |     this.x += foo.bar;')
+    expect(excerpt).not.toContain('let p;')
+  })
+})
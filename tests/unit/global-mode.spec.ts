@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach, onTestFinished } from 'vitest'
+import * as acorn from 'acorn'
+import { buildP5IframeHtml } from '../../setup/iframe-bootstrap'
+import {
+  getGlobalModePreludeScript,
+  loadGlobalModeSketch,
+  prepareGlobalModeSketch,
+} from '../../setup/global-mode'
+import type { GlobalModeIframe } from '../../setup/global-mode'
+
+const inlineScripts = (html: string) =>
+  [...html.matchAll(/<script>([\s\S]*?)<\/script>/g)].map((match) => match[1])
+
+describe('global mode', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('runs JavaScript as written and only strips TypeScript types', () => {
+    const code = 'let x = 1;\nfunction setup() { createCanvas(100, 100); }'
+    expect(prepareGlobalModeSketch(code, false)).toMatchObject({ code, map: null, diagnostics: [] })
+    const ts = prepareGlobalModeSketch('let x: number = 1;\nfunction setup(): void {}', true)
+    expect(ts.code).toBe('let x = 1;\nfunction setup() {}')
+    expect(ts.map).not.toBeNull()
+  })
+
+  it('loads the prelude and the sketch after the bootstrap, which declares no globals', () => {
+    const html = buildP5IframeHtml({
+      computedBg: 'white',
+      theme: 'light',
+      sketchInstanceId: 'sketch-1',
+      p5ScriptUrl: 'https://cdn.example/p5.js',
+      sketchPrelude: '/* prelude */',
+      sketchScriptUrl: 'blob:sketch',
+    })
+    const body = html.slice(html.indexOf('<body>'))
+    expect(body.indexOf('/* prelude */')).toBeLessThan(body.indexOf('<script src="blob:sketch">'))
+    expect(body.indexOf('window.__p5Addon = {}')).toBeLessThan(body.indexOf('/* prelude */'))
+    // A sketch may declare `let observer` or `const parentOrigin` itself
+    const bootstrap = acorn.parse(inlineScripts(body)[0], { ecmaVersion: 'latest' })
+    expect(bootstrap.body.filter((node) => node.type === 'VariableDeclaration')).toEqual([])
+  })
+
+  it('hands the new window to the slide before the sketch runs', () => {
+    const hook = vi.fn()
+    const log = vi.fn()
+    const win = {
+      frameElement: { __p5GlobalModeWindow: hook },
+      console: { log, error: vi.fn(), warn: vi.fn() },
+      __p5Addon: { logs: [] as string[], originalLog: log, originalError: vi.fn(), originalWarn: vi.fn(), appendLog: vi.fn() },
+    }
+    new Function('window', getGlobalModePreludeScript())(win)
+    expect(hook).toHaveBeenCalledWith(win)
+    win.console.log('hello', { a: 1 })
+    expect(win.__p5Addon.appendLog).toHaveBeenCalledWith('hello {"a":1}')
+  })
+
+  it('replaces the iframe document with one running the sketch', async () => {
+    const createObjectURL = vi.fn(() => 'blob:sketch')
+    const revokeObjectURL = vi.fn()
+    const { createObjectURL: originalCreate, revokeObjectURL: originalRevoke } = URL
+    Object.assign(URL, { createObjectURL, revokeObjectURL })
+    onTestFinished(() => {
+      Object.assign(URL, { createObjectURL: originalCreate, revokeObjectURL: originalRevoke })
+    })
+    const iframe: GlobalModeIframe = document.createElement('iframe')
+    const onWindow = vi.fn()
+    const buildHtml = vi.fn((options) => `<html>${options.sketchScriptUrl}</html>`)
+
+    const loaded = loadGlobalModeSketch(iframe, 'function setup() {}', buildHtml, onWindow)
+    expect(buildHtml).toHaveBeenCalledWith(expect.objectContaining({
+      includeOriginalConsole: true,
+      sketchScriptUrl: 'blob:sketch',
+      sketchPrelude: getGlobalModePreludeScript(),
+    }))
+    expect(iframe.srcdoc).toBe('<html>blob:sketch</html>')
+
+    const win = {} as Window
+    iframe.__p5GlobalModeWindow?.(win)
+    expect(onWindow).toHaveBeenCalledWith(win, 'blob:sketch')
+
+    iframe.dispatchEvent(new Event('load'))
+    await loaded
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:sketch')
+  })
+})
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { IframeReadiness, getIframeReadiness } from '../../setup/iframe-readiness'
+import { IframeMessageHandler } from '../../setup/iframe-message-handler'
+import { buildP5IframeHtml } from '../../setup/iframe-bootstrap'
+import { createPendingOutput } from '../../setup/code-runners'
+
+describe('iframe readiness', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('queues runs until the document reports p5 loaded', async () => {
+    const readiness = new IframeReadiness('https://cdn.example/p5.js')
+    const waiting = readiness.whenReady()
+    expect(readiness.state).toBe('loading')
+    readiness.markReady({ p5Loaded: true })
+    await expect(waiting).resolves.toEqual({ ok: true })
+    await expect(readiness.whenReady()).resolves.toEqual({ ok: true })
+  })
+
+  it('fails only when the p5 script did not load', async () => {
+    const readiness = new IframeReadiness('https://cdn.example/p5.js')
+    readiness.markReady({ p5Loaded: false })
+    expect(readiness.state).toBe('failed')
+    await expect(readiness.whenReady()).resolves.toEqual({
+      ok: false,
+      error: expect.stringContaining('p5.js failed to load from https://cdn.example/p5.js'),
+    })
+    readiness.reset()
+    const waiting = readiness.whenReady()
+    readiness.markReady({ p5Loaded: true })
+    await expect(waiting).resolves.toEqual({ ok: true })
+  })
+
+  it('gives up after the timeout', async () => {
+    vi.useFakeTimers()
+    const waiting = new IframeReadiness().whenReady(2000)
+    vi.advanceTimersByTime(2000)
+    await expect(waiting).resolves.toEqual({ ok: false, error: expect.stringContaining('within 2 s') })
+  })
+
+  it('is settled by the p5-iframe-ready message', () => {
+    const iframe = document.createElement('iframe')
+    const readiness = getIframeReadiness(iframe)
+    const handler = new IframeMessageHandler({
+      allowedOrigins: ['http://localhost:3030'],
+      onReady: (data) => readiness.markReady(data),
+    })
+    handler.handle(new MessageEvent('message', {
+      origin: 'http://localhost:3030',
+      data: { type: 'p5-iframe-ready', sketchInstanceId: 'sketch-1', p5Loaded: true },
+    }))
+    expect(getIframeReadiness(iframe).state).toBe('ready')
+  })
+
+  it('signals whether p5 loaded in the ready message', () => {
+    const html = buildP5IframeHtml({ computedBg: 'white', theme: 'light', sketchInstanceId: 'sketch-1' })
+    expect(html).toContain("type: 'p5-iframe-ready', sketchInstanceId: window.__p5Addon.sketchInstanceId, p5Loaded: typeof window.p5 !== 'undefined'")
+  })
+
+  it('shows a loading note until the queued run has output', async () => {
+    let finish: (output: { text: string }) => void = () => {}
+    const element = createPendingOutput(new Promise((resolve) => { finish = resolve }))
+    expect(element.textContent).toBe('Loading p5.js in the preview…')
+    finish({ text: 'Error: p5.js failed to load.' })
+    await Promise.resolve()
+    await Promise.resolve()
+    expect(element.textContent).toBe('Error: p5.js failed to load.')
+  })
+})
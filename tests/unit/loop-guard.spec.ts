@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getLoopGuardScript, guardScript } from '../../setup/loop-guard'
+import type { LoopGuardOptions } from '../../setup/loop-guard'
+import { transpileSketch } from '../../setup/p5-transpile'
+import { ErrorLineMapper } from '../../setup/error-line-mapper'
+import type { SketchFileSpan } from '../../setup/sketch-files'
+
+const installGuard = (options: LoopGuardOptions, files?: SketchFileSpan[]) => {
+  const noLoop = vi.fn()
+  const postMessage = vi.fn()
+  const win: Record<string, unknown> = {
+    __p5Addon: { instance: { noLoop }, sketchInstanceId: 'sketch-1' },
+    parent: { postMessage },
+    location: { origin: 'http://localhost:3030' },
+  }
+  new Function('window', getLoopGuardScript(options, files))(win)
+  const run = (code: string) => new Function('__p5LoopGuard', code)(win.__p5LoopGuard)
+  return { run, noLoop, postMessage }
+}
+
+describe('loop guard instrumentation', () => {
+  const sketch = `function draw() {\n  let i = 0;\n  while (true) i++;\n}`
+
+  it('is off unless requested', () => {
+    expect(transpileSketch(sketch).code).not.toContain('__p5LoopGuard')
+  })
+
+  it('guards loop bodies and counts call depth', () => {
+    const code = transpileSketch(sketch, { loopGuard: true }).code!
+    expect(code).toContain('__p5LoopGuard.loop(3);')
+    expect(code).toContain('__p5LoopGuard.enter(1);')
+    expect(code).toMatch(/finally \{\s*__p5LoopGuard\.exit\(\);/)
+  })
+
+  it('guards instance-mode sketches too', () => {
+    const code = transpileSketch(`new p5((s) => {\n  s.draw = () => { for (;;) {} };\n});`, { loopGuard: true }).code!
+    expect(code).toContain('__p5LoopGuard.loop(2);')
+  })
+
+  it('maps the guard call back to the loop line', () => {
+    const output = transpileSketch(sketch, { loopGuard: true })
+    const lines = output.code!.split('\n')
+    const line = lines.findIndex((l) => l.includes('__p5LoopGuard.loop')) + 1
+    const column = lines[line - 1].indexOf('__p5LoopGuard') + 1
+    const mapper = new ErrorLineMapper(sketch, output.code!, 0, { sourceMap: output.map })
+    expect(mapper.mapPosition(line, column)?.line).toBe(3)
+  })
+})
+
+describe('loop guard runtime', () => {
+  it('stops a runaway loop and reports its line', () => {
+    const { run, noLoop, postMessage } = installGuard({ maxIterations: 1000 })
+    const code = guardScript(`let n = 0;\n\nwhile (true) { n++; }`)
+    expect(() => run(code)).toThrow(/Loop at line 3 ran more than 1000 iterations/)
+    expect(noLoop).toHaveBeenCalled()
+    expect(postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'p5-error', sketchInstanceId: 'sketch-1', error: expect.stringContaining('line 3') }),
+      'http://localhost:3030'
+    )
+  })
+
+  it('stops loops that exceed the time budget', () => {
+    const { run } = installGuard({ timeoutMs: 20 })
+    expect(() => run(guardScript(`for (;;) {}`))).toThrow(/ran longer than 20 ms/)
+  })
+
+  it('stops runaway recursion and unwinds the depth', () => {
+    const { run } = installGuard({ maxCallDepth: 50 })
+    expect(() => run(guardScript(`function down(n) { return down(n + 1); }\ndown(0);`))).toThrow(/line 1 nested more than 50 calls/)
+    expect(() => run(guardScript(`function fib(n) { return n < 2 ? n : fib(n - 1) + fib(n - 2); }\nfib(12);`))).not.toThrow()
+  })
+
+  it('names the file of a multi-file sketch', () => {
+    const files = [
+      { name: 'Particle.js', startLine: 1, lineCount: 2 },
+      { name: 'sketch.js', startLine: 4, lineCount: 2 },
+    ]
+    const { run } = installGuard({ maxIterations: 10 }, files)
+    expect(() => run(guardScript(`let a = 1;\nlet b = 2;\n;\nlet c = 3;\nwhile (c) {}`))).toThrow(/Loop at sketch\.js line 2/)
+  })
+})
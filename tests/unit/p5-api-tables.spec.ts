@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  FALLBACK_P5_API_TABLES,
+  clearP5ApiTablesCache,
+  collectP5ApiTables,
+  resolveP5ApiTables,
+} from '../../setup/p5-api-tables'
+import { transpileSketch } from '../../setup/p5-transpile'
+
+const makeP5 = () => {
+  class Core {
+    createCanvas() {}
+    _private() {}
+  }
+  class P5 extends Core {
+    circle() {}
+    get width() { return 0 }
+  }
+  Object.assign(P5.prototype, { PI: Math.PI, mouseX: 0 })
+  return P5
+}
+
+const fakeWindow = (p5: unknown, p5ScriptUrl?: string) =>
+  ({ p5, __p5Addon: { p5ScriptUrl } }) as unknown as Window
+
+describe('collectP5ApiTables', () => {
+  it('reads methods and properties along the prototype chain', () => {
+    const tables = collectP5ApiTables(makeP5())!
+    expect(tables.functions).toEqual(expect.arrayContaining(['createCanvas', 'circle']))
+    expect(tables.constants).toEqual(expect.arrayContaining(['width', 'PI', 'mouseX']))
+    expect(tables.functions).not.toContain('_private')
+    expect(tables.functions).not.toContain('constructor')
+  })
+
+  it('picks up add-on libraries that extend the prototype', () => {
+    const P5 = makeP5()
+    Object.assign(P5.prototype, { loadSound() {} })
+    expect(collectP5ApiTables(P5)!.functions).toContain('loadSound')
+  })
+
+  it('rejects values that are not p5', () => {
+    expect(collectP5ApiTables(undefined)).toBeNull()
+    expect(collectP5ApiTables(class {})).toBeNull()
+  })
+})
+
+describe('resolveP5ApiTables', () => {
+  beforeEach(() => clearP5ApiTablesCache())
+
+  it('caches runtime tables per p5 URL for windows still loading p5', () => {
+    const url = 'https://cdn.example/p5.min.js'
+    const loaded = resolveP5ApiTables(fakeWindow(makeP5(), url))
+    expect(resolveP5ApiTables(fakeWindow(undefined, url))).toBe(loaded)
+    expect(resolveP5ApiTables(fakeWindow(undefined), url)).toBe(loaded)
+  })
+
+  it('falls back to the static list', () => {
+    expect(resolveP5ApiTables(null)).toBe(FALLBACK_P5_API_TABLES)
+    expect(resolveP5ApiTables(fakeWindow(undefined, 'https://cdn.example/other.js'))).toBe(FALLBACK_P5_API_TABLES)
+  })
+
+  it('lets the transpiler rewrite add-on functions', () => {
+    const P5 = makeP5()
+    Object.assign(P5.prototype, { loadSound() {} })
+    const apiTables = resolveP5ApiTables(fakeWindow(P5))
+    const { code } = transpileSketch('function setup() { loadSound("a.mp3"); circle(1, 2, 3); }', { apiTables })
+    expect(code).toContain('_p.loadSound("a.mp3")')
+    expect(code).toContain('_p.circle(1, 2, 3)')
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { transpileSketch } from '../../setup/p5-transpile'
+import { parseLintAttribute } from '../../setup/p5-lint'
+import type { P5LintRules } from '../../setup/p5-lint'
+
+const lint = (code: string, rules: P5LintRules | boolean = true) =>
+  transpileSketch(code, { lint: rules }).diagnostics.filter((d) => d.severity === 'warning')
+
+const rulesOf = (code: string, rules?: P5LintRules) => lint(code, rules).map((d) => d.ruleId)
+
+describe('p5 lint', () => {
+  it('reports nothing for a correct sketch', () => {
+    const code = `
+let img;
+function preload() { img = loadImage('cat.png'); }
+function setup() { createCanvas(400, 400); circle(width / 2, height / 2, 10); }
+function draw() { background(mouseX); image(img, 0, 0); }
+function mousePressed() { fill(255); }`
+    expect(lint(code)).toEqual([])
+  })
+
+  it('suggests the lifecycle name for misspelled callbacks', () => {
+    const [setup, pressed] = lint('function Setup() {}\nfunction mousepressed() {}')
+    expect(setup).toMatchObject({ ruleId: 'misspelled-lifecycle', range: { startLine: 1, startColumn: 10 } })
+    expect(setup.message).toContain('Did you mean setup()?')
+    expect(pressed.message).toContain('Did you mean mousePressed()?')
+  })
+
+  it('leaves helpers alone that the sketch calls itself', () => {
+    expect(rulesOf('function drew() {}\nfunction draw() { drew(); }')).toEqual([])
+  })
+
+  it('flags every draw() but the last one', () => {
+    const warnings = lint('function draw() { background(0); }\nfunction draw() { circle(0, 0, 5); }')
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toMatchObject({ ruleId: 'duplicate-lifecycle', range: { startLine: 1 } })
+    expect(warnings[0].message).toContain('defined again on line 2')
+  })
+
+  it('flags createCanvas() and resource creation in draw()', () => {
+    const code = `function draw() {
+  createCanvas(100, 100);
+  let img = loadImage('cat.png');
+  let pg = createGraphics(10, 10);
+}`
+    expect(rulesOf(code)).toEqual(['create-canvas-in-draw', 'per-frame-resource', 'per-frame-resource'])
+    expect(lint(code)[1].message).toBe('loadImage() is called in draw(), so the file is loaded again every frame.')
+  })
+
+  it('flags width and height read before createCanvas()', () => {
+    const code = `let cx = width / 2;
+function setup() {
+  let h = height;
+  createCanvas(width, 200);
+  circle(width / 2, height / 2, 10);
+}`
+    expect(lint(code).map((d) => [d.ruleId, d.range.startLine, d.range.startColumn])).toEqual([
+      ['size-before-canvas', 1, 10],
+      ['size-before-canvas', 3, 11],
+      ['size-before-canvas', 4, 16],
+    ])
+  })
+
+  it('does not flag class fields, which run when the class is used', () => {
+    expect(rulesOf('class Ball { x = width / 2 }\nfunction setup() { createCanvas(100, 100); }')).toEqual([])
+  })
+
+  it('suggests the p5 name for near misses', () => {
+    const warnings = lint('function draw() { circle(mousex, mouseY, 10); backgroud(0); }')
+    expect(warnings.map((d) => d.message)).toEqual([
+      'mousex is not defined. Did you mean mouseX?',
+      'backgroud is not defined. Did you mean background?',
+    ])
+  })
+
+  it('does not suggest p5 names for JavaScript and browser globals', () => {
+    expect(rulesOf('let m = new Map();\nlet i = new Image();\nfunction draw() { text(document.title, 0, 0); }')).toEqual([])
+  })
+
+  it('turns individual rules or the whole pass off', () => {
+    const code = 'function draw() { createCanvas(100, 100); }\nfunction Setup() {}'
+    expect(rulesOf(code, { 'create-canvas-in-draw': false })).toEqual(['misspelled-lifecycle'])
+    expect(lint(code, false)).toEqual([])
+    expect(transpileSketch(code).diagnostics).toEqual([])
+  })
+
+  it('does not lint instance-mode sketches', () => {
+    expect(lint('new p5((p) => { p.draw = () => p.createCanvas(10, 10); });')).toEqual([])
+  })
+
+  it('reads the lint setting of a component attribute', () => {
+    expect(parseLintAttribute(null)).toEqual({})
+    expect(parseLintAttribute('true')).toEqual({})
+    expect(parseLintAttribute('false')).toBe(false)
+    expect(parseLintAttribute('{"unknown-p5-name":false}')).toEqual({ 'unknown-p5-name': false })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { transpileSketch } from '../../setup/p5-transpile'
+import { getP5LoadUrl, getP5VersionFromUrl } from '../../setup/p5-version-manager'
+
+const sketch1x = `let img;
+function preload() {
+  img = loadImage('cat.png');
+}
+function setup() {
+  createCanvas(100, 100);
+  image(img, 0, 0);
+}`
+
+const warnings = (code: string, p5Version: string) =>
+  transpileSketch(code, { p5Version }).diagnostics.filter((d) => d.ruleId === 'p5-version-migration')
+
+describe('getP5VersionFromUrl', () => {
+  it('reads the version from load URLs', () => {
+    expect(getP5VersionFromUrl(getP5LoadUrl({ version: '1.7.0' }))).toBe('1.7.0')
+    expect(getP5VersionFromUrl('https://unpkg.com/p5@1.9.4/lib/p5.js')).toBe('1.9.4')
+    expect(getP5VersionFromUrl('https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.9.4/p5.min.js')).toBe('1.9.4')
+    expect(getP5VersionFromUrl('/vendor/p5.min.js')).toBeUndefined()
+  })
+})
+
+describe('p5 1.x sketches on a 2.x target', () => {
+  it('moves preload into an async setup with awaited loads', () => {
+    const { code, diagnostics } = transpileSketch(sketch1x, { p5Version: '2.2.0' })
+    expect(code).not.toContain('_p.preload')
+    expect(code).toContain('_p.setup = async function')
+    expect(code).toContain(`_img = await _p.loadImage('cat.png')`)
+    expect(code!.indexOf('loadImage')).toBeLessThan(code!.indexOf('createCanvas'))
+    expect(diagnostics.find((d) => d.message.startsWith('preload()'))?.range.startLine).toBe(2)
+  })
+
+  it('keeps the directives of setup first when moving preload into it', () => {
+    const { code } = transpileSketch(sketch1x.replace('function setup() {', "function setup() {\n  'use strict';"), { p5Version: '2.2.0' })
+    expect(code).toMatch(/_p\.setup = async function \(\) \{\n\s+'use strict';\n\s+await \(async function preload/)
+  })
+
+  it('keeps preload for 1.x targets and unknown versions', () => {
+    expect(transpileSketch(sketch1x, { p5Version: '1.7.0' }).code).toContain('_p.preload = function')
+    expect(transpileSketch(sketch1x).code).toContain('_p.preload = function')
+  })
+
+  it('warns about removed and renamed APIs once per name', () => {
+    const found = warnings(`function draw() {\n  curveVertex(1, 2);\n  curveVertex(3, 4);\n  if (mouseButton === LEFT) {}\n}`, '2.0.0')
+    expect(found.map((d) => d.hint)).toEqual(['Use splineVertex() instead.', 'Use mouseButton.left instead.'])
+    expect(found[0].range.startLine).toBe(2)
+  })
+
+  it('ignores sketch functions with the same name', () => {
+    expect(warnings(`function curve() {}\nfunction draw() { curve(); }`, '2.2.0')).toEqual([])
+  })
+
+  it('flags callback-style loading', () => {
+    const found = warnings(`function setup() { loadJSON('d.json', (d) => print(d)); }`, '2.2.0')
+    expect(found[0].message).toContain('loadJSON() returns a Promise')
+  })
+})
+
+describe('p5 2.x sketches on a 1.x target', () => {
+  it('warns about 2.x-only APIs and async setup', () => {
+    const code = `async function setup() {\n  createCanvas(100, 100);\n  await loadFont('f.ttf');\n  splineVertex(1, 2);\n}`
+    const found = warnings(code, '1.7.0')
+    expect(found.map((d) => d.range.startLine).sort()).toEqual([1, 4])
+    expect(found.find((d) => d.range.startLine === 4)?.hint).toBe('Use curveVertex() instead.')
+  })
+
+  it('flags APIs added in later 1.x releases by the full target version', () => {
+    const code = `function setup() {\n  createFilterShader(src);\n  buildGeometry(shape);\n  paletteLerp(colors, 0.5);\n}`
+    expect(warnings(code, '1.7.0').map((d) => d.message)).toEqual([
+      '"createFilterShader" was added in p5.js 1.8.0; this sketch runs on p5.js 1.7.0.',
+      '"buildGeometry" was added in p5.js 1.8.0; this sketch runs on p5.js 1.7.0.',
+      '"paletteLerp" was added in p5.js 1.11.0; this sketch runs on p5.js 1.7.0.',
+    ])
+    expect(warnings(code, '1.9.4').map((d) => d.range.startLine)).toEqual([4])
+    expect(warnings(code, '1.11.0')).toEqual([])
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { transpileGlobalToInstance, P5_NAMESPACE } from '../../setup/p5-transpile'
+import { checkSketchSyntax, isInstanceModeSketch, isP5Sketch, readP5Pragma, transpileGlobalToInstance, transpileSketch, P5_NAMESPACE } from '../../setup/p5-transpile'
+import { formatDiagnostics } from '../../setup/diagnostics'
 
 describe('transpileGlobalToInstance', () => {
   it('converts setup and createCanvas to instance mode', () => {
@@ -47,3 +48,411 @@ describe('transpileGlobalToInstance', () => {
     expect(out).toContain(`${P5_NAMESPACE}.setup`)
   })
 })
+
+describe('transpileGlobalToInstance scope handling', () => {
+  it('keeps shadowing locals separate from the top-level binding', () => {
+    const code = `let x = 1; function draw(){ let x = 2; x++; } function mousePressed(){ x = 5; }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('let _x = 1')
+    expect(out).toContain('let x = 2')
+    expect(out).toContain('x++')
+    expect(out).not.toContain('_x++')
+    expect(out).toContain('_x = 5')
+  })
+
+  it('leaves closure locals alone while renaming captured globals', () => {
+    const code = `let count = 0; function makeCounter(){ let n = 0; return () => { n++; count++; return n; }; }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('function _makeCounter()')
+    expect(out).toContain('let n = 0')
+    expect(out).toContain('n++')
+    expect(out).toContain('_count++')
+    expect(out).not.toContain('_n')
+  })
+
+  it('does not rename parameters that share a name with a top-level variable', () => {
+    const code = `let size = 10; function grow(size){ return size * 2; } function draw(){ grow(size); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('let _size = 10')
+    expect(out).toMatch(/function _grow\(size\)\s*\{\s*return size \* 2;/)
+    expect(out).toContain('_grow(_size)')
+  })
+
+  it('keeps per-function locals with the same name independent', () => {
+    const code = `function a(){ for (let i = 0; i < 3; i++) {} } function b(){ let i = 5; return i; }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('let i = 0')
+    expect(out).toContain('let i = 5')
+    expect(out).toContain('return i;')
+    expect(out).not.toContain('_i')
+  })
+
+  it('hoists var declarations to the enclosing function scope', () => {
+    const code = `var total = 0; function draw(){ if (true) { var total = 1; } return total; }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('var _total = 0')
+    expect(out).toContain('var total = 1')
+    expect(out).toContain('return total;')
+  })
+
+  it('references lifecycle functions through the instance namespace', () => {
+    const code = `function setup(){ createCanvas(10, 10); } function mousePressed(){ setup(); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain(`${P5_NAMESPACE}.mousePressed = function`)
+    expect(out).toContain(`${P5_NAMESPACE}.setup();`)
+  })
+})
+
+describe('transpileGlobalToInstance destructuring, classes and loop bindings', () => {
+  it('renames object pattern bindings without changing the destructured keys', () => {
+    const code = `let pos = { x: 1, y: 2 }; let { x, y: top = 0, ...rest } = pos; function draw(){ point(x, top); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toMatch(/let \{x: _x, y: _top = 0, \.\.\._rest\} = _pos/)
+    expect(out).toContain(`${P5_NAMESPACE}.point(_x, _top)`)
+  })
+
+  it('renames array pattern bindings, including holes, defaults and rest', () => {
+    const code = `const arr = [1, 2, 3, 4]; const [a, , b = 5, ...others] = arr; function draw(){ print(a + b + others.length); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toMatch(/const \[_a, , _b = 5, \.\.\._others\] = _arr/)
+    expect(out).toContain('_a + _b + _others.length')
+  })
+
+  it('expands shorthand defaults in object patterns', () => {
+    const code = `let { speed = 2 } = {}; function draw(){ speed++; }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toMatch(/let \{speed: _speed = 2\} = \{\}/)
+    expect(out).toContain('_speed++')
+  })
+
+  it('keeps destructured parameters local to their function', () => {
+    const code = `let x = 0; function move({ x, y }, [dx]){ return x + y + dx; }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toMatch(/function _move\(\{x, y\}, \[dx\]\)/)
+    expect(out).toContain('return x + y + dx;')
+  })
+
+  it('scopes for-of and for-in header declarations to the loop', () => {
+    const code = `let particles = []; let p = 1; for (const p of particles) { p.update(); } for (const key in particles) { print(key); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('for (const p of _particles)')
+    expect(out).toContain('p.update()')
+    expect(out).toContain('for (const key in _particles)')
+    expect(out).toContain(`${P5_NAMESPACE}.print(key)`)
+    expect(out).toContain('let __p = 1')
+  })
+
+  it('gives prefixed names that do not clash with other bindings', () => {
+    const code = `let x = 1;\nlet _x = 2;\nlet y = 3;\nfunction draw() { const _y = 4; circle(x, _x, y + _y); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('let __x = 1;')
+    expect(out).toContain('let _x = 2;')
+    expect(out).toContain('let __y = 3;')
+    expect(out).toContain(`${P5_NAMESPACE}.circle(__x, _x, __y + _y)`)
+    expect(() => new Function(out)).not.toThrow()
+  })
+
+  it('renames top-level classes consistently', () => {
+    const code = `class Particle { constructor(x){ this.x = x; } draw(){ circle(this.x, 0, 4); } } let ps = [new Particle(1)]; function draw(){ for (const p of ps) p.draw(); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('class _Particle')
+    expect(out).toContain('new _Particle(1)')
+    expect(out).toMatch(/draw\(\)\s*\{\s*_p\.circle\(this\.x, 0, 4\)/)
+    expect(out).toContain(`${P5_NAMESPACE}.draw = function`)
+  })
+
+  it('keeps class expression names local to the class body', () => {
+    const code = `const Mover = class Inner { clone(){ return new Inner(); } }; let m = new Mover();`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('const _Mover = class Inner')
+    expect(out).toContain('return new Inner()')
+    expect(out).toContain('let _m = new _Mover()')
+  })
+})
+
+describe('transpileGlobalToInstance modern syntax', () => {
+  it('supports class fields, private members and static blocks', () => {
+    const code = `class Ball { x = width / 2; #speed = 1_000; static count = 0; static { Ball.count ??= 1; } get speed(){ return this.#speed; } }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('class _Ball')
+    expect(out).toContain(`x = ${P5_NAMESPACE}.width / 2`)
+    expect(out).toContain('#speed = 1_000')
+    expect(out).toContain('_Ball.count ??= 1')
+    expect(out).toContain('return this.#speed')
+  })
+
+  it('keeps var declarations inside static blocks local', () => {
+    const code = `class Grid { static { var size = 4; Grid.size = size; } }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('var size = 4')
+    expect(out).toContain('_Grid.size = size')
+  })
+
+  it('supports logical assignment and optional chaining', () => {
+    const code = `let opts = null; function setup(){ opts ??= {}; opts.size ||= 10; print(opts?.size); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('_opts ??= {}')
+    expect(out).toContain('_opts.size ||= 10')
+    expect(out).toContain(`${P5_NAMESPACE}.print(_opts?.size)`)
+  })
+
+  it('keeps async lifecycle functions async', () => {
+    const code = `let img; async function setup(){ img = await loadImage('a.png'); createCanvas(100, 100); } const draw = async () => { image(img, 0, 0); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain(`${P5_NAMESPACE}.setup = async function`)
+    expect(out).toContain(`_img = await ${P5_NAMESPACE}.loadImage('a.png')`)
+    expect(out).toContain(`${P5_NAMESPACE}.draw = async () =>`)
+  })
+
+  it('defers top-level await into an async setup, keeping bindings top-level', () => {
+    const code = `const img = await loadImage('a.png'); let { w, h } = await loadJSON('s.json'); function setup(){ createCanvas(w, h); } function draw(){ image(img, 0, 0); }`
+    const out = transpileGlobalToInstance(code) as string
+    expect(out).toContain('let _img;')
+    expect(out).toContain('let _w, _h;')
+    expect(out).toMatch(/async function __p5DeferredInit\(\) \{\s*_img = await _p\.loadImage\('a\.png'\);/)
+    expect(out).toContain(`({w: _w, h: _h} = await ${P5_NAMESPACE}.loadJSON('s.json'))`)
+    expect(out).toMatch(/_p\.setup = async function \(\) \{\s*await __p5DeferredInit\(\);\s*_p\.createCanvas\(_w, _h\);/)
+    expect(out).toContain(`image(_img, 0, 0)`)
+  })
+
+  it('creates setup when a sketch with top-level await has none', () => {
+    const code = `let data = await loadJSON('d.json'); print(data);`
+    const out = transpileGlobalToInstance(code) as string
+    expect(out).toContain(`${P5_NAMESPACE}.setup = async function`)
+    expect(out).toContain('await __p5DeferredInit()')
+    expect(out).toContain(`${P5_NAMESPACE}.print(_data)`)
+  })
+})
+
+describe('checkSketchSyntax', () => {
+  it('returns null for valid code', () => {
+    expect(checkSketchSyntax('let a = 1_000; a ??= 2;')).toBeNull()
+  })
+
+  it('reports line, column and the offending line', () => {
+    const msg = checkSketchSyntax('let a = 1;\nlet b = (;')
+    expect(msg).toContain('Syntax error at line 2, column 10')
+    expect(msg).toContain('2 | let b = (;')
+  })
+
+  it('explains syntax proposals that sketches cannot use yet', () => {
+    expect(checkSketchSyntax('@sealed\nclass A {}')).toContain('Decorator syntax (@) is a JavaScript proposal')
+    expect(checkSketchSyntax('let b = a |> f;')).toContain('pipeline operator')
+  })
+})
+
+describe('transpileSketch', () => {
+  it('returns code, source map and no diagnostics for valid sketches', () => {
+    const result = transpileSketch(`function setup(){ createCanvas(10, 10); }`)
+    expect(result.code).toContain(`${P5_NAMESPACE}.createCanvas(10, 10)`)
+    expect(result.map?.sources).toEqual(['sketch.js'])
+    expect(result.diagnostics).toEqual([])
+  })
+
+  it('reports syntax errors as diagnostics with a range and rule id', () => {
+    const result = transpileSketch('let a = 1;\nlet b = (;')
+    expect(result.code).toBeNull()
+    expect(result.map).toBeNull()
+    expect(result.diagnostics).toEqual([
+      {
+        severity: 'error',
+        message: 'Unexpected token',
+        range: { startLine: 2, startColumn: 10, endLine: 2, endColumn: 11 },
+        ruleId: 'syntax-error',
+      },
+    ])
+  })
+
+  it('uses a dedicated rule id and hint for proposal syntax', () => {
+    const [diagnostic] = transpileSketch('@sealed\nclass A {}').diagnostics
+    expect(diagnostic.ruleId).toBe('unsupported-proposal')
+    expect(diagnostic.hint).toContain('Decorator syntax (@)')
+  })
+
+  it('formats diagnostics with the offending line', () => {
+    const code = 'function setup() {\n  createCanvas(10 10);\n}'
+    const text = formatDiagnostics(transpileSketch(code).diagnostics, code)
+    expect(text).toContain('Syntax error at line 2, column 19: Unexpected token [syntax-error]')
+    expect(text).toContain('  2 |   createCanvas(10 10);')
+    expect(text).toContain('    |                   ^')
+  })
+})
+
+describe('transpileGlobalToInstance p5 name collisions', () => {
+  it('calls a user function named after a p5 function', () => {
+    const code = `function circle(x, y){ ellipse(x, y, 5); } function draw(){ circle(1, 2); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('function _circle(x, y)')
+    expect(out).toContain('_circle(1, 2)')
+    expect(out).not.toContain(`${P5_NAMESPACE}.circle`)
+  })
+
+  it('reads a user variable named after a p5 constant', () => {
+    const code = `let width = 300; function setup(){ createCanvas(width, height); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain('let _width = 300')
+    expect(out).toContain(`${P5_NAMESPACE}.createCanvas(_width, ${P5_NAMESPACE}.height)`)
+  })
+
+  it('lets local bindings win only inside their scope', () => {
+    const code = `function draw(){ let red = 3; fill(red); } function other(){ fill(red(0)); }`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain(`${P5_NAMESPACE}.fill(red)`)
+    expect(out).toContain(`${P5_NAMESPACE}.fill(${P5_NAMESPACE}.red(0))`)
+  })
+
+  it('still assigns p5 event callbacks to the instance', () => {
+    const code = `function mousePressed(){ print(mouseX); } const keyPressed = () => print(key);`
+    const out = transpileGlobalToInstance(code)
+    expect(out).toContain(`${P5_NAMESPACE}.mousePressed = function`)
+    expect(out).toContain(`${P5_NAMESPACE}.keyPressed = () =>`)
+  })
+
+  it('warns when a user binding shadows a p5 API', () => {
+    const { diagnostics } = transpileSketch(`let width = 300;\nfunction circle(){}\nfunction setup(){}`)
+    expect(diagnostics.map((d) => [d.severity, d.ruleId, d.range.startLine, d.range.startColumn])).toEqual([
+      ['warning', 'shadowed-p5-api', 1, 5],
+      ['warning', 'shadowed-p5-api', 2, 10],
+    ])
+    expect(diagnostics[1].message).toContain('p5.js function circle()')
+  })
+})
+
+describe('instance-mode sketches', () => {
+  const sketch = `let sketch = (s) => {\n  s.setup = () => { s.createCanvas(100, 100); };\n};\nnew p5(sketch);`
+
+  it('detects new p5(...) from the AST', () => {
+    expect(isInstanceModeSketch(sketch)).toBe(true)
+    expect(isInstanceModeSketch(`const app = new window.p5((s) => {});`)).toBe(true)
+    expect(isInstanceModeSketch(`function setup(){ createCanvas(10, 10); }`)).toBe(false)
+    expect(isInstanceModeSketch(`// new p5(sketch)\nfunction setup(){}`)).toBe(false)
+    expect(isInstanceModeSketch(`class p5 {} new p5();`)).toBe(false)
+  })
+
+  it('returns instance-mode code unchanged', () => {
+    const result = transpileSketch(sketch)
+    expect(result.mode).toBe('instance')
+    expect(result.code).toBe(sketch)
+    expect(result.map).toBeNull()
+  })
+})
+
+describe('p5 detection', () => {
+  it('detects sketches from lifecycle functions and p5 calls', () => {
+    expect(isP5Sketch('function setup() { createCanvas(100, 100); }')).toBe(true)
+    expect(isP5Sketch('const draw = () => { if (mouseX > width / 2) rect(0, 0, 10, 10); };')).toBe(true)
+    expect(isP5Sketch('function mousePressed() { console.log(mouseX); }')).toBe(true)
+    expect(isP5Sketch('new p5((s) => { s.setup = () => s.createCanvas(100, 100); });')).toBe(true)
+    expect(isP5Sketch('createCanvas(100, 100);\nbackground(0);')).toBe(true)
+    expect(isP5Sketch('let n: number = 1;\nfunction draw(): void { circle(n, n, 10); }', { typescript: true })).toBe(true)
+  })
+
+  it('does not take other code that mentions or defines setup for a sketch', () => {
+    expect(isP5Sketch('// call setup() first\nconsole.log("setup = done")')).toBe(false)
+    expect(isP5Sketch('function setup() { document.title = "demo"; }')).toBe(false)
+    expect(isP5Sketch('function background(c) { return c; }\nbackground(1);')).toBe(false)
+  })
+
+  it('does not take browser globals for p5 names where there is no window (workers)', () => {
+    expect('print' in globalThis).toBe(false)
+    expect(isP5Sketch('print("hello");')).toBe(false)
+    expect(isP5Sketch('function setup() { print(document.title); }')).toBe(false)
+    expect(isP5Sketch('function setup() { print(width); }')).toBe(true)
+  })
+
+  it('treats code with a syntax error as a sketch when it declares setup()', () => {
+    expect(isP5Sketch('function setup() {\n  createCanvas(100, 100\n}')).toBe(true)
+    expect(isP5Sketch('const x = ;')).toBe(false)
+  })
+
+  it('reads // @p5 and // @no-p5 pragmas on lines of their own', () => {
+    expect(readP5Pragma('// @p5\nconst x = 1;')).toBe('p5')
+    expect(readP5Pragma('function setup() {}\n  // @no-p5')).toBe('no-p5')
+    expect(readP5Pragma('const tag = "// @p5"; // @p5ish')).toBeNull()
+  })
+})
+
+describe('top-level p5 calls', () => {
+  const sketch = `let c = color(255, 0, 0);
+let d = c;
+let size = 10;
+function setup() {
+  createCanvas(100, 100);
+}
+function draw() {
+  fill(d);
+  circle(50, 50, size);
+}`
+
+  it('defers initializers calling p5 into the start of setup', () => {
+    const { code } = transpileSketch(sketch)
+    expect(code).toContain('let _c;')
+    expect(code).toContain('let _size = 10;')
+    expect(code).toMatch(/function __p5DeferredInit\(\) \{\n\s+_c = _p\.color\(255, 0, 0\);\n\s+_d = _c;\n\}/)
+    expect(code).toMatch(/_p\.setup = function \(\) \{\n\s+__p5DeferredInit\(\);\n\s+_p\.createCanvas/)
+  })
+
+  it('explains the rewrite with an info diagnostic at the call', () => {
+    const { diagnostics } = transpileSketch(sketch)
+    const deferred = diagnostics.filter((d) => d.ruleId === 'deferred-p5-call')
+    expect(deferred).toHaveLength(1)
+    expect(deferred[0]).toMatchObject({ severity: 'info', range: { startLine: 1, startColumn: 9 } })
+    expect(deferred[0].message).toContain('"c" stays a top-level variable')
+  })
+
+  it('leaves calls inside functions and to sketch functions alone', () => {
+    const { code, diagnostics } = transpileSketch(`function random() { return 4; }\nlet r = random();\nconst pick = () => color(0);\nfunction setup() {}`)
+    expect(code).toContain('let _r = _random();')
+    expect(code).not.toContain('__p5DeferredInit')
+    expect(diagnostics.filter((d) => d.ruleId === 'deferred-p5-call')).toEqual([])
+  })
+
+  it('keeps the directives of setup first', () => {
+    const { code } = transpileSketch(`let c = color(0);\nfunction setup() {\n  'use strict';\n  createCanvas(10, 10);\n}`)
+    expect(code).toMatch(/_p\.setup = function \(\) \{\n\s+'use strict';\n\s+__p5DeferredInit\(\);/)
+  })
+
+  it('defers classes whose static fields or blocks call p5', () => {
+    const { code, diagnostics } = transpileSketch(`class A {\n  static c = random();\n  m() { return random(); }\n}\nclass B { static { this.d = color(0); } }\nclass C { f() { return color(0); } }\nfunction setup() {}`)
+    expect(code).toContain('let _A;')
+    expect(code).toMatch(/function __p5DeferredInit\(\) \{\n\s+_A = class A \{\n\s+static c = _p\.random\(\);/)
+    expect(code).toMatch(/_B = class B \{/)
+    expect(code).toContain('class _C {')
+    const deferred = diagnostics.filter((d) => d.ruleId === 'deferred-p5-call')
+    expect(deferred.map((d) => d.range.startLine)).toEqual([2, 5])
+    expect(deferred[0].message).toContain('this top-level class now runs at the start of setup()')
+  })
+})
+
+describe('TypeScript sketches', () => {
+  const sketch = `interface Ball { x: number; y: number }
+enum Mode { Calm, Busy }
+let ball: Ball = { x: 10, y: 20 };
+function setup(): void {
+  createCanvas(100 as number, 100);
+}
+function draw(): void {
+  const size: number = ball.x * (Mode.Busy as number);
+  circle(ball!.x, ball.y, size);
+}`
+
+  it('strips type syntax before the instance-mode transform', () => {
+    const { code, diagnostics } = transpileSketch(sketch, { typescript: true })
+    expect(diagnostics).toEqual([])
+    expect(code).not.toMatch(/interface|: number|as number/)
+    expect(code).toContain('_p.createCanvas(100, 100)')
+    expect(code).toContain('_p.circle(_ball.x, _ball.y, size)')
+    expect(code).toContain('_Mode.Busy')
+  })
+
+  it('reports diagnostics at TypeScript positions', () => {
+    const { diagnostics } = transpileSketch(`let label: string = 'a';\nlet c: unknown = color(255);`, { typescript: true })
+    expect(diagnostics[0]).toMatchObject({ ruleId: 'deferred-p5-call', range: { startLine: 2, startColumn: 18 } })
+  })
+
+  it('reports TypeScript syntax errors', () => {
+    const { code, diagnostics } = transpileSketch('let size: = 10;', { typescript: true })
+    expect(code).toBeNull()
+    expect(diagnostics[0]).toMatchObject({ ruleId: 'syntax-error', range: { startLine: 1, startColumn: 11 } })
+  })
+})
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import { RUN_TARGET_OPTION, bindRunTarget, resolveRunTarget } from '../../setup/run-target'
+import setupCodeRunners from '../../setup/code-runners'
+
+const mountP5Code = (id: string, files: string[] = []) => {
+  const wrapper = document.createElement('div')
+  const block = '<div class="slidev-code-runner-container"><button class="slidev-icon-btn" title="Run code"></button></div>'
+  wrapper.innerHTML = `<div class="p5-editor-container" data-p5code-id="${id}">${
+    files.length ? files.map((file) => `<div data-p5-file="${file}">${block}</div>`).join('') : block
+  }</div><iframe class="p5-canvas-iframe" data-p5code-id="${id}"></iframe>`
+  document.body.appendChild(wrapper)
+  return wrapper
+}
+
+describe('run target', () => {
+  it('keeps the runner options of the code block', () => {
+    expect(bindRunTarget('sketch-1', 'sketch.js', { autorun: false })).toEqual({
+      autorun: false,
+      [RUN_TARGET_OPTION]: { sketchInstanceId: 'sketch-1', file: 'sketch.js' },
+    })
+  })
+
+  it('finds the iframe of the bound <P5Code> whatever has focus', () => {
+    const first = mountP5Code('sketch-1')
+    const second = mountP5Code('sketch-2')
+    second.querySelector('button')?.focus()
+    const resolved = resolveRunTarget({ options: bindRunTarget('sketch-1') })
+    expect('target' in resolved && resolved.target.iframe).toBe(first.querySelector('iframe'))
+    expect('target' in resolved && resolved.target.runButton).toBe(first.querySelector('button'))
+    first.remove()
+    second.remove()
+  })
+
+  it('finds the tab panel of a multi-file sketch', () => {
+    const wrapper = mountP5Code('sketch-3', ['Particle.js', 'sketch.js'])
+    wrapper.querySelectorAll('button').forEach((button) => { button.dataset.p5codeId = 'sketch-3' })
+    const resolved = resolveRunTarget({ options: bindRunTarget('sketch-3', 'sketch.js') })
+    if (!('target' in resolved)) throw new Error(resolved.error)
+    expect(resolved.target.editor.className).toBe('p5-editor-container')
+    expect(resolved.target.panel?.getAttribute('data-p5-file')).toBe('sketch.js')
+    expect(resolved.target.runButton).toBe(wrapper.querySelectorAll('button')[1])
+    wrapper.remove()
+  })
+
+  it('reports code blocks without a preview', () => {
+    expect(resolveRunTarget({ options: {} })).toEqual({ error: expect.stringContaining('not part of a <P5Code>') })
+    expect(resolveRunTarget({ options: bindRunTarget('gone') })).toEqual({ error: expect.stringContaining('is not in the page') })
+  })
+
+  it('shows the error in the output panel instead of running nothing', async () => {
+    const runners = await setupCodeRunners({})
+    const run = runners.js as (code: string, ctx: unknown) => Promise<{ text?: string }>
+    const output = await run('function setup() {\n  createCanvas(100, 100);\n}', { options: {} })
+    expect(output.text).toMatch(/^Error: This code block is not part of a <P5Code>/)
+  })
+})
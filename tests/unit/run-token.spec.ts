@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest'
+import { CANCELLED_RUN_TEXT, RunToken, beginRun, isCurrentRun, takeOverPreview } from '../../setup/run-token'
+import { buildSketchScript } from '../../setup/code-runners'
+
+describe('run tokens', () => {
+  it('cancels the run in progress when a new run starts', () => {
+    const iframe = document.createElement('iframe')
+    const first = beginRun(iframe)
+    const second = beginRun(iframe)
+    expect(first.cancelled).toBe(true)
+    expect(second.id).toBe(first.id + 1)
+    expect(isCurrentRun(iframe, first)).toBe(false)
+    expect(isCurrentRun(iframe, second)).toBe(true)
+  })
+
+  it('keeps a finished run live until a newer run takes over the preview', () => {
+    const iframe = document.createElement('iframe')
+    const first = beginRun(iframe)
+    const teardown = vi.fn()
+    first.onCancel(teardown)
+    takeOverPreview(iframe, first)
+    first.finish()
+    const second = beginRun(iframe)
+    expect(first.cancelled).toBe(false)
+    takeOverPreview(iframe, second)
+    expect(first.cancelled).toBe(true)
+    expect(teardown).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops waiting once cancelled', async () => {
+    const token = new RunToken(1)
+    const step = token.race(new Promise<string>(() => {}))
+    token.cancel()
+    await expect(step).resolves.toBeNull()
+    await expect(token.race(Promise.resolve('late'))).resolves.toBeNull()
+  })
+
+  it('runs teardowns once, and at once when already cancelled', () => {
+    const token = new RunToken(1)
+    const teardown = vi.fn()
+    token.onCancel(teardown)
+    token.onCancel(() => { throw new Error('already gone') })
+    token.cancel()
+    token.cancel()
+    expect(teardown).toHaveBeenCalledTimes(1)
+    const late = vi.fn()
+    token.onCancel(late)
+    expect(late).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips the sketch script of a run that is no longer the latest', () => {
+    const { script, preambleLines } = buildSketchScript('window.started = true;', 'instance', '', '', 3)
+    expect(preambleLines).toBe(buildSketchScript('window.started = true;', 'instance').preambleLines + 1)
+    const stale = { __p5Addon: { runToken: 4 } } as { __p5Addon: Record<string, unknown>; started?: boolean }
+    new Function('window', script)(stale)
+    expect(stale.started).toBeUndefined()
+    expect(stale.__p5Addon.originalLog).toBeUndefined()
+  })
+
+  it('names the cancellation in the output', () => {
+    expect(CANCELLED_RUN_TEXT).toMatch(/^Run cancelled/)
+  })
+})
@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import {
+  collectSketchFiles,
+  combineSketchFiles,
+  locateInFiles,
+  sketchFileSources,
+  splitDiagnosticsByFile,
+} from '../../setup/sketch-files'
+import { transpileSketch } from '../../setup/p5-transpile'
+import { formatDiagnostic } from '../../setup/diagnostics'
+
+const files = [
+  { name: 'Particle.js', code: 'class Particle {\n  constructor() { this.x = 0 }\n}\n' },
+  { name: 'sketch.js', code: 'function setup() {\n  createCanvas(100, 100)\n}' },
+]
+
+describe('combineSketchFiles', () => {
+  it('joins files in order and records their line spans', () => {
+    const combined = combineSketchFiles(files)
+    expect(combined.code.split('\n')[3]).toBe(';')
+    expect(combined.files).toEqual([
+      { name: 'Particle.js', startLine: 1, lineCount: 3 },
+      { name: 'sketch.js', startLine: 5, lineCount: 3 },
+    ])
+    expect(sketchFileSources(combined.code, combined.files)['sketch.js']).toBe(files[1].code)
+  })
+
+  it('maps lines of the joined program to file lines', () => {
+    const { files: spans } = combineSketchFiles(files)
+    expect(locateInFiles(spans, 2)).toEqual({ file: 'Particle.js', line: 2 })
+    expect(locateInFiles(spans, 6)).toEqual({ file: 'sketch.js', line: 2 })
+    expect(locateInFiles(spans, 4)).toBeNull()
+  })
+
+  it('does not let a file without a trailing semicolon run into the next', () => {
+    const combined = combineSketchFiles([
+      { name: 'a.js', code: 'let speed = 2' },
+      { name: 'sketch.js', code: '[1, 2].forEach(n => print(n))\nfunction setup() {}' },
+    ])
+    expect(transpileSketch(combined.code).code).not.toBeNull()
+  })
+})
+
+describe('splitDiagnosticsByFile', () => {
+  it('reports diagnostics against the file and its source', () => {
+    const combined = combineSketchFiles([
+      { name: 'Particle.js', code: 'class Particle {}' },
+      { name: 'sketch.js', code: 'function setup() {\n  let x = (;\n}' },
+    ])
+    const output = transpileSketch(combined.code)
+    const [diagnostic] = splitDiagnosticsByFile(output.diagnostics, combined.files)
+    expect(diagnostic.file).toBe('sketch.js')
+    expect(diagnostic.range.startLine).toBe(2)
+    const text = formatDiagnostic(diagnostic, sketchFileSources(combined.code, combined.files))
+    expect(text).toContain('at sketch.js line 2, column')
+    expect(text).toContain('2 |   let x = (;')
+  })
+})
+
+describe('collectSketchFiles', () => {
+  it('is null for a single code block', () => {
+    const container = document.createElement('div')
+    container.innerHTML = '<div data-p5-file="sketch.js"></div>'
+    expect(collectSketchFiles(container, null, 'code')).toBeNull()
+  })
+
+  it('uses the run code for the tab being run and lists unreadable tabs', () => {
+    const container = document.createElement('div')
+    container.innerHTML = '<div data-p5-file="Particle.js"></div><div data-p5-file="sketch.js"><button></button></div>'
+    const result = collectSketchFiles(container, container.querySelector('button'), 'function setup() {}')
+    expect(result?.files.map((f) => f.name)).toEqual(['Particle.js', 'sketch.js'])
+    expect(result?.files[1].code).toBe('function setup() {}')
+    expect(result?.unreadable).toEqual(['Particle.js'])
+  })
+})
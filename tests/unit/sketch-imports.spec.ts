@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest'
+import { transpileSketch } from '../../setup/p5-transpile'
+import { buildP5IframeHtml } from '../../setup/iframe-bootstrap'
+import { findSketchImportSpecifiers, getSketchModuleHeader } from '../../setup/sketch-imports'
+import { sketchModulesPlugin } from '../../setup/sketch-modules-plugin'
+
+const SKETCH = `import { createNoise2D } from 'simplex-noise';
+import wobble, * as helpers from './helpers/wobble.js';
+const noise = createNoise2D();
+function setup() {
+  createCanvas(100, 100);
+  return [noise(1, 2), wobble(3), helpers.scale];
+}`
+
+const MODULES = {
+  'simplex-noise': { createNoise2D: () => (x: number, y: number) => x + y },
+  './helpers/wobble.js': { default: (x: number) => x * 2, scale: 4 },
+}
+
+describe('sketch imports', () => {
+  it('finds the imports of sketches in P5Canvas and P5Code blocks only', () => {
+    const markdown = `
+<P5Code>
+\`\`\`js {monaco-run}
+import { createNoise2D } from 'simplex-noise'
+import "./helpers/setup.js"
+\`\`\`
+</P5Code>
+
+\`\`\`js
+import { ref } from 'vue'
+\`\`\`
+
+<P5Canvas>
+import * as noise from 'simplex-noise'
+</P5Canvas>`
+    expect(findSketchImportSpecifiers(markdown)).toEqual(['simplex-noise', './helpers/setup.js'])
+  })
+
+  it('turns imports into declarations inside the instance wrapper', () => {
+    const result = transpileSketch(SKETCH)
+    expect(result.imports).toEqual(['simplex-noise', './helpers/wobble.js'])
+    expect(result.code).not.toContain('import ')
+    const p5 = { createCanvas: vi.fn(), setup: undefined as undefined | (() => unknown[]) }
+    new Function('_p', '__p5Modules', result.code ?? '')(p5, MODULES)
+    expect(p5.setup?.()).toEqual([3, 6, 4])
+    expect(p5.createCanvas).toHaveBeenCalledWith(100, 100)
+  })
+
+  it('drops type-only imports of TypeScript sketches', () => {
+    const code = "import type { Noise } from 'noise-types';\nimport { createNoise2D } from 'simplex-noise';\nconst noise: Noise = createNoise2D();"
+    expect(transpileSketch(code, { typescript: true }).imports).toEqual(['simplex-noise'])
+  })
+
+  it('keeps scripts without imports out of module mode', () => {
+    const result = transpileSketch('function setup() { x = 1; }')
+    expect(result.imports).toBeUndefined()
+    expect(result.code).toContain('x = 1;')
+  })
+
+  it('rewrites imports of instance-mode sketches too', () => {
+    const result = transpileSketch("import { createNoise2D } from 'simplex-noise';\nnew p5((s) => { s.setup = () => createNoise2D(); });")
+    expect(result.mode).toBe('instance')
+    expect(result.imports).toEqual(['simplex-noise'])
+    expect(result.code).toContain('__p5Modules["simplex-noise"]')
+  })
+
+  it('unwraps exported declarations and rejects other exports', () => {
+    expect(transpileSketch('export function setup() { createCanvas(10, 10); }').code).toContain('_p.setup = function')
+    const result = transpileSketch('function setup() {}\nexport default setup;')
+    expect(result.code).toBeNull()
+    expect(result.diagnostics[0]).toMatchObject({ ruleId: 'unsupported-export', range: { startLine: 2, startColumn: 1 } })
+  })
+
+  it('imports packages through the import map and deck files by URL', () => {
+    const header = getSketchModuleHeader(['simplex-noise', './helpers/wobble.js'], {
+      'simplex-noise': 'http://localhost/@fs/deck/node_modules/simplex-noise/dist/esm/simplex-noise.js',
+      './helpers/wobble.js': 'http://localhost/helpers/wobble.js',
+    })
+    expect(header).toBe(
+      'import * as __p5Module0 from "simplex-noise";\n' +
+      'import * as __p5Module1 from "http://localhost/helpers/wobble.js";\n' +
+      'const __p5Modules = { "simplex-noise": __p5Module0, "./helpers/wobble.js": __p5Module1 };\n'
+    )
+    expect(() => getSketchModuleHeader(['three'], {})).toThrow('Cannot import "three": it is not built into the deck. Install it in the deck (npm install three).')
+  })
+
+  it('adds the packages to the import map of the iframe document', () => {
+    const html = buildP5IframeHtml({
+      computedBg: 'white',
+      theme: 'light',
+      sketchInstanceId: 'sketch-1',
+      p5ScriptUrl: 'https://cdn.example/p5.js',
+      importMap: { 'simplex-noise': '/assets/simplex-noise.js', './helpers/x.js': '/assets/x.js</script>' },
+    })
+    const importMap = html.match(/<script type="importmap">(.*?)<\/script>/)
+    expect(JSON.parse(importMap?.[1] ?? '')).toEqual({ imports: { 'simplex-noise': '/assets/simplex-noise.js' } })
+    expect(html.indexOf('type="importmap"')).toBeLessThan(html.indexOf('https://cdn.example/p5.js'))
+    expect(html).toContain('window.__p5Addon.importMap = {"simplex-noise":"/assets/simplex-noise.js","./helpers/x.js":"/assets/x.js\\u003c/script>"};')
+  })
+})
+
+describe('sketchModulesPlugin', () => {
+  const deck = (raw: string) => ({
+    userRoot: '/deck',
+    data: { markdownFiles: { '/deck/slides.md': { raw } } },
+  }) as unknown as Parameters<typeof sketchModulesPlugin>[0]
+  const markdown = "<P5Code>\nimport { createNoise2D } from 'simplex-noise'\nimport { wobble } from './wobble.js'\nimport missing from 'missing'\n</P5Code>"
+  const resolved: Record<string, string> = {
+    'simplex-noise': '/deck/node_modules/simplex-noise/dist/esm/simplex-noise.js',
+    './wobble.js': '/deck/wobble.js',
+  }
+  const context = {
+    resolve: vi.fn(async (specifier: string) => (resolved[specifier] ? { id: resolved[specifier] } : null)),
+    emitFile: vi.fn(() => 'ref0'),
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const hook = (plugin: any, name: string) => plugin[name].bind(context)
+
+  it('serves the URLs of resolved modules in development', async () => {
+    const plugin = sketchModulesPlugin(deck(markdown))
+    hook(plugin, 'configResolved')({ command: 'serve', base: '/talk/' })
+    const id = hook(plugin, 'resolveId')('virtual:p5-sketch-modules')
+    const code: string = await hook(plugin, 'load')(id)
+    expect(context.resolve).toHaveBeenCalledWith('simplex-noise', '/deck/slides.md')
+    expect(code).toContain('"simplex-noise": new URL("/talk/node_modules/simplex-noise/dist/esm/simplex-noise.js", window.location.href).href,')
+    expect(code).toContain('"./wobble.js": new URL("/talk/wobble.js", window.location.href).href,')
+    expect(code).not.toContain('missing')
+  })
+
+  it('emits a chunk per module in a build', async () => {
+    const plugin = sketchModulesPlugin(deck(markdown))
+    hook(plugin, 'configResolved')({ command: 'build', base: '/' })
+    const code: string = await hook(plugin, 'load')(hook(plugin, 'resolveId')('virtual:p5-sketch-modules'))
+    expect(context.emitFile).toHaveBeenCalledWith({ type: 'chunk', id: resolved['simplex-noise'], preserveSignature: 'strict' })
+    expect(code).toContain('"simplex-noise": import.meta.ROLLUP_FILE_URL_ref0,')
+  })
+
+  it('updates the module when a slide adds an import', async () => {
+    const plugin = sketchModulesPlugin(deck(markdown))
+    const id = hook(plugin, 'resolveId')('virtual:p5-sketch-modules')
+    await hook(plugin, 'load')(id)
+    const module = { id }
+    const moduleGraph = { getModuleById: vi.fn(() => module), invalidateModule: vi.fn() }
+    const update = (raw: string) => hook(plugin, 'handleHotUpdate')({
+      file: '/deck/slides.md',
+      modules: [],
+      read: () => raw,
+      server: { moduleGraph },
+    })
+    expect(await update(`${markdown}\n# Edited`)).toBeUndefined()
+    expect(await update(`${markdown}\n<P5Canvas>\nimport * as THREE from 'three'\n</P5Canvas>`)).toEqual([module])
+    expect(moduleGraph.invalidateModule).toHaveBeenCalledWith(module)
+  })
+})
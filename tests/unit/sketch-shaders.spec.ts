@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest'
+import { exposeSketchShaders, getShaderRuntimeScript, splitShaderFiles, toShaderFile, updateSketchShader } from '../../setup/sketch-shaders'
+import { buildP5IframeHtml } from '../../setup/iframe-bootstrap'
+import { transpileSketch } from '../../setup/p5-transpile'
+
+const VERT = 'attribute vec3 aPosition;\nvoid main() {\n  gl_Position = vec4(aPosition, 1.0);\n}'
+const FRAG = 'precision mediump float;\nvoid main() {\n  gl_FragColor = vec4(colr, 1.0);\n}'
+
+const installRuntime = () => {
+  const postMessage = vi.fn()
+  class Shader {
+    _glProgram = 7
+    _renderer = { GL: { deleteProgram: vi.fn() } }
+    constructor(public _vertSrc: string, public _fragSrc: string) {}
+  }
+  class WebGLRenderingContext {
+    COMPILE_STATUS = 1
+    log = ''
+    shaderSource(shader: object, source: string) { void shader; void source }
+    compileShader(shader: object) { void shader }
+    getShaderParameter() { return this.log === '' }
+    getShaderInfoLog() { return this.log }
+  }
+  const p5 = function() {} as unknown as { prototype: Record<string, unknown> }
+  p5.prototype.createShader = (vert: string, frag: string) => new Shader(vert, frag)
+  const win: Record<string, unknown> = {
+    __p5Addon: { sketchInstanceId: 'sketch-1', parentOrigin: 'http://localhost:3030' },
+    parent: { postMessage },
+    location: { origin: 'http://localhost:3030' },
+    p5,
+    WebGLRenderingContext,
+  }
+  new Function('window', getShaderRuntimeScript())(win)
+  return { win: win as unknown as Window & Record<string, unknown>, p5, postMessage, gl: new WebGLRenderingContext() }
+}
+
+describe('sketch shaders', () => {
+  it('reads the shader name and stage from the fence name', () => {
+    expect(toShaderFile('main.frag', FRAG)).toEqual({ file: 'main.frag', name: 'main', stage: 'frag', code: FRAG })
+    expect(toShaderFile('vert', VERT)).toMatchObject({ name: 'main', stage: 'vert' })
+    expect(toShaderFile('blur.vert', VERT)).toMatchObject({ name: 'blur', stage: 'vert' })
+    expect(toShaderFile('file2.glsl', VERT)).toMatchObject({ name: 'main', stage: 'vert' })
+    expect(toShaderFile('file3.glsl', FRAG)).toMatchObject({ name: 'main', stage: 'frag' })
+    expect(toShaderFile('sketch.js', '')).toBeNull()
+  })
+
+  it('keeps shader files out of the joined program', () => {
+    const { files, shaders } = splitShaderFiles([
+      { name: 'main.vert', code: VERT },
+      { name: 'sketch.js', code: 'function setup() {}' },
+      { name: 'main.frag', code: FRAG },
+    ])
+    expect(files.map((f) => f.name)).toEqual(['sketch.js'])
+    expect(shaders.map((f) => f.file)).toEqual(['main.vert', 'main.frag'])
+  })
+
+  it('exposes the sources as shaders.<name>', () => {
+    const { win } = installRuntime()
+    exposeSketchShaders(win, splitShaderFiles([{ name: 'main.vert', code: VERT }, { name: 'main.frag', code: FRAG }]).shaders)
+    expect(win.shaders).toEqual({ main: { vert: VERT, frag: FRAG } })
+  })
+
+  it('swaps an edited shader into the shaders created from it', () => {
+    const { win, p5 } = installRuntime()
+    exposeSketchShaders(win, [toShaderFile('main.vert', VERT)!, toShaderFile('main.frag', FRAG)!])
+    const created = (p5.prototype.createShader as (v: string, f: string) => Record<string, unknown>)(VERT, FRAG)
+    const other = (p5.prototype.createShader as (v: string, f: string) => Record<string, unknown>)(VERT, 'void main() {}')
+    const fixed = FRAG.replace('colr', 'vec3(1.0)')
+    expect(updateSketchShader(win, toShaderFile('main.frag', fixed)!)).toBe(1)
+    expect(created).toMatchObject({ _fragSrc: fixed, _vertSrc: VERT, _glProgram: 0, _initialized: false })
+    expect(other._fragSrc).toBe('void main() {}')
+    expect((win.shaders as Record<string, Record<string, string>>).main.frag).toBe(fixed)
+  })
+
+  it('reports GLSL compile errors at the line of the shader fence', () => {
+    const { win, postMessage, gl } = installRuntime()
+    exposeSketchShaders(win, [toShaderFile('main.frag', FRAG)!])
+    const shader = {}
+    // p5 may prepend lines to the author's source
+    gl.shaderSource(shader, `#define P5\n${FRAG}`)
+    gl.log = "ERROR: 0:4: 'colr' : undeclared identifier\nERROR: 0:4: 'constructor' : not enough data provided for construction\n"
+    gl.compileShader(shader)
+    expect(postMessage).toHaveBeenCalledWith({
+      type: 'p5-error',
+      sketchInstanceId: 'sketch-1',
+      error: "GLSL compile error\nmain.frag line 3: 'colr' : undeclared identifier\n>   3 |   gl_FragColor = vec4(colr, 1.0);\n" +
+        "main.frag line 3: 'constructor' : not enough data provided for construction\n>   3 |   gl_FragColor = vec4(colr, 1.0);",
+    }, 'http://localhost:3030')
+  })
+
+  it('is part of every preview document', () => {
+    const html = buildP5IframeHtml({ computedBg: 'white', theme: 'light', sketchInstanceId: 'sketch-1' })
+    expect(html).toContain('addon.setShaders = function')
+  })
+
+  it('does not suggest shader() for the shaders global', () => {
+    const result = transpileSketch('function setup() {\n  createShader(shaders.main.vert, shaders.main.frag);\n}', { lint: true })
+    expect(result.diagnostics).toEqual([])
+    expect(result.code).toContain('shaders.main.vert')
+  })
+})
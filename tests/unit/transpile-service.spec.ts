@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { isP5Sketch, transpileSketch } from '../../setup/p5-transpile'
+import type { TranspileWorkerRequest } from '../../setup/transpile-service'
+
+const SKETCH = 'function setup() { createCanvas(100, 100); }'
+
+// Answers like setup/transpile-worker.ts, recording every request
+class FakeWorker extends EventTarget {
+  static requests: TranspileWorkerRequest[] = []
+  postMessage(request: TranspileWorkerRequest) {
+    FakeWorker.requests.push(request)
+    const result = request.task === 'detect' ? isP5Sketch(request.code, request.options) : transpileSketch(request.code, request.options)
+    const data = { id: request.id, result }
+    queueMicrotask(() => this.dispatchEvent(new MessageEvent('message', { data })))
+  }
+  terminate() {}
+}
+
+// The worker is created once per module instance
+const loadService = async () => {
+  vi.resetModules()
+  return import('../../setup/transpile-service')
+}
+
+describe('transpileSketchAsync', () => {
+  beforeEach(() => {
+    FakeWorker.requests = []
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('transpiles on the main thread when workers are unavailable', async () => {
+    const { transpileSketchAsync } = await loadService()
+    const result = await transpileSketchAsync(SKETCH, { loopGuard: true })
+    expect(result).toEqual(transpileSketch(SKETCH, { loopGuard: true }))
+  })
+
+  it('transpiles in the worker and serves repeated runs from the cache', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { transpileSketchAsync } = await loadService()
+    const first = await transpileSketchAsync(SKETCH, { p5Version: '2.2.0' })
+    const again = await transpileSketchAsync(SKETCH, { p5Version: '2.2.0' })
+    expect(first.code).toContain('_p.createCanvas(100, 100)')
+    expect(again).toBe(first)
+    expect(FakeWorker.requests).toHaveLength(1)
+  })
+
+  it('shares one request between identical runs in flight', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { transpileSketchAsync } = await loadService()
+    const [a, b] = await Promise.all([transpileSketchAsync(SKETCH), transpileSketchAsync(SKETCH)])
+    expect(a).toBe(b)
+    expect(FakeWorker.requests).toHaveLength(1)
+  })
+
+  it('transpiles again when the code, p5 version or options change', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { transpileSketchAsync } = await loadService()
+    await transpileSketchAsync(SKETCH, { p5Version: '1.11.0' })
+    await transpileSketchAsync(SKETCH, { p5Version: '2.2.0' })
+    await transpileSketchAsync(SKETCH, { p5Version: '2.2.0', loopGuard: true })
+    await transpileSketchAsync(`${SKETCH}\n`, { p5Version: '2.2.0', loopGuard: true })
+    expect(FakeWorker.requests).toHaveLength(4)
+  })
+
+  it('transpiles again after the cache is cleared', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { transpileSketchAsync, clearTranspileCache } = await loadService()
+    await transpileSketchAsync(SKETCH)
+    clearTranspileCache()
+    await transpileSketchAsync(SKETCH)
+    expect(FakeWorker.requests).toHaveLength(2)
+  })
+
+  it('finishes pending requests on the main thread when the worker fails', async () => {
+    class BrokenWorker extends EventTarget {
+      postMessage() {
+        queueMicrotask(() => this.dispatchEvent(new Event('error')))
+      }
+      terminate() {}
+    }
+    vi.stubGlobal('Worker', BrokenWorker)
+    const { transpileSketchAsync } = await loadService()
+    const result = await transpileSketchAsync(SKETCH)
+    expect(result.code).toContain('_p.createCanvas(100, 100)')
+  })
+})
+
+describe('detectP5SketchAsync', () => {
+  beforeEach(() => {
+    FakeWorker.requests = []
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('detects in the worker and caches answers, including negative ones', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { detectP5SketchAsync, transpileSketchAsync } = await loadService()
+    expect(await detectP5SketchAsync(SKETCH)).toBe(true)
+    expect(await detectP5SketchAsync('console.log(1)')).toBe(false)
+    expect(await detectP5SketchAsync('console.log(1)')).toBe(false)
+    await transpileSketchAsync(SKETCH)
+    expect(FakeWorker.requests.map((r) => r.task)).toEqual(['detect', 'detect', 'transpile'])
+  })
+
+  it('counts functions of add-on libraries such as p5.gui from the API tables', async () => {
+    const { detectP5SketchAsync } = await loadService()
+    const tables = { functions: ['createGui'], constants: [] }
+    expect(await detectP5SketchAsync('let gui = createGui("Settings");')).toBe(false)
+    expect(await detectP5SketchAsync('let gui = createGui("Settings");', { apiTables: tables })).toBe(true)
+  })
+})
+
+describe('transpileCacheKey', () => {
+  it('keys API tables by their names, not by object identity', async () => {
+    const { transpileCacheKey } = await loadService()
+    const tables = { functions: ['createCanvas'], constants: ['width'] }
+    const copy = { functions: ['createCanvas'], constants: ['width'] }
+    const extended = { functions: ['createCanvas', 'loadSound'], constants: ['width'] }
+    expect(transpileCacheKey(SKETCH, { apiTables: tables })).toBe(transpileCacheKey(SKETCH, { apiTables: copy }))
+    expect(transpileCacheKey(SKETCH, { apiTables: tables })).not.toBe(transpileCacheKey(SKETCH, { apiTables: extended }))
+  })
+})
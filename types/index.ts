@@ -2,6 +2,7 @@
  * TypeScript interfaces and types for slidev-addon-p5
  * Provides type safety and documentation across the addon
  */
+import type { RawSourceMap } from 'source-map-js';
 
 /**
  * Console logging wrapper interface
@@ -61,6 +62,62 @@ export interface IframeMessage {
   height?: number;
 }
 
+/**
+ * Severity of a transpiler diagnostic
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Source range of a diagnostic (1-based lines and columns, end exclusive)
+ */
+export interface DiagnosticRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * A problem (or note) the transpiler reports about a sketch
+ */
+export interface TranspileDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  range: DiagnosticRange;
+  /** Stable identifier of the check that produced it, e.g. `syntax-error` */
+  ruleId: string;
+  /** Optional explanation or suggested fix */
+  hint?: string;
+  /** File of a multi-file sketch the range refers to, e.g. `Particle.js` */
+  file?: string;
+}
+
+/**
+ * How a sketch creates its p5 instance
+ * - `global`: global-mode code, wrapped by the addon in `new p5(...)`
+ * - `instance`: the sketch calls `new p5(...)` itself and runs as written
+ */
+export type SketchMode = 'global' | 'instance';
+
+/**
+ * Result of transpiling a sketch
+ *
+ * `code` and `map` are null when an error diagnostic prevented transpiling.
+ * Instance-mode sketches are returned unchanged, without a source map.
+ */
+export interface TranspileResult {
+  code: string | null;
+  mode: SketchMode;
+  /** Source map from `code` back to the sketch source */
+  map: RawSourceMap | null;
+  diagnostics: TranspileDiagnostic[];
+  /**
+   * Modules the code reads from `__p5Modules`, by specifier; the code must
+   * run after `getSketchModuleHeader(imports, importMap)`, as a module script
+   */
+  imports?: string[];
+}
+
 /**
  * Configuration for code runner execution
  */
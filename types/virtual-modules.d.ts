@@ -0,0 +1,8 @@
+/**
+ * Virtual modules served by the addon's Vite plugins
+ */
+declare module 'virtual:p5-sketch-modules' {
+  /** Module URLs by the import specifiers used in the deck's sketches (see setup/sketch-imports.ts) */
+  const sketchImportMap: Record<string, string>
+  export default sketchImportMap
+}